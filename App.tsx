@@ -1,22 +1,99 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { 
   parseSyllabus, 
-  generateLessonContent, 
-  generateAudioLesson, 
-  chatWithSidekick, 
+  streamChatWithSidekick, 
+  voiceChatWithSidekick,
+  SidekickContext,
+  generateAudioLesson,
+  canSynthesizeSpeech,
   generateExam,
   fileToGenerativePart,
-  generateKnowledgeGraph
+  generateKnowledgeGraph,
+  updateKnowledgeGraph,
+  generateFlashcards,
+  gradeExam,
+  generateRemediationLesson,
+  summarizeConversation,
+  generateChatQuiz,
+  explainPassage,
+  generatePassageFlashcard
 } from './services/geminiService';
-import { CourseStructure, CourseModule, ContentDepth, Message, ExamQuestion, KnowledgeGraphData } from './types';
+import {
+  listCourses,
+  saveCourse,
+  updateCourse,
+  deleteCourse,
+  getCourse,
+  saveExamAttempt,
+  listExamAttempts,
+  listChatThreads,
+  saveChatThread,
+  deleteChatThread,
+  listFlashcards,
+  saveFlashcards,
+  listProgress,
+  updateProgress,
+  getLesson,
+  saveLessonAnnotations,
+  lessonKey,
+  listEvents
+} from './services/courseStore';
+import { getOrGenerateLesson, invalidateCourseLessons, invalidateLesson } from './services/lessonCache';
+import { getOrSynthesizeSpeech } from './services/audioCache';
+import { AudioExportProgress, exportCourseAudio, exportModuleAudio } from './services/audioExport';
+import { getOrGenerateDialogue } from './services/dialogueCache';
+import { loadVoicePreferences, saveVoicePreferences, VoicePreferences } from './services/voicePreferences';
+import { loadCalendarExport, loadStudyPreferences, saveCalendarExport, saveStudyPreferences } from './services/studyPreferences';
+import { ingestSyllabusFiles } from './services/ingestion';
+import { exportCourseBundle, importCourseBundle } from './services/courseBundle';
+import { logEvent, startLessonTimer } from './services/analytics';
+import { assembleStudyPack, StudyPackFormat, StudyPackOptions, StudyPackProgress, studyPackToHtml, studyPackToMarkdown } from './services/studyPack';
+import { Assessment, LearningEvent, CourseStructure, CourseModule, ContentDepth, ChatQuiz, ChatThread, DialogueLine, ExplanationStyle, LessonAnnotation, Message, ExamQuestion, ExamAnswer, ExamAttempt, ExamConfig, QuestionResult, WeakSpot, KnowledgeGraphData, SavedCourse, SyllabusDocument, Flashcard, ModuleProgress } from './types';
+import { buildDialogueScript, buildSpeechScript, markdownToSpeechText, splitMarkdownBlocks } from './utils/speechText';
+import { anchorBlockIndex } from './utils/annotations';
 import { decodeAudioData, playAudioBuffer } from './utils/audioUtils';
+import { VoiceRecording } from './utils/audioRecorder';
+import { citedSources, stripCitations } from './utils/retrieval';
+import { retrieveCourseContext } from './services/courseIndex';
+import { downloadBlob, safeFileName } from './utils/download';
+import { printHtml } from './utils/print';
+import { sha256Hex } from './utils/hash';
+import { createChatThread, isQuizRequest, latestThreadFor, messagesToSummarize, threadToMarkdown, toApiHistory } from './utils/chatThreads';
+import { outlineChanges } from './utils/outline';
+import { StudyPlan, StudyPlanOptions } from './utils/studyPlan';
+import { calendarEventDates, studyPlanToIcs } from './utils/ical';
+import { eventsToCsv } from './utils/analytics';
+import { createFlashcard, getDueCards } from './utils/spacedRepetition';
+import { totalScore } from './utils/examGrading';
+import { findWeakSpots } from './utils/remediation';
+import { computeGraphProgress, isModuleCompleted, mapConceptsToModules, PASSING_SCORE, scoreByModule, tallyQuizByModule } from './utils/progress';
 import ExamModal from './components/ExamModal';
+import ExamSetup from './components/ExamSetup';
+import RemediationModal from './components/RemediationModal';
 import KnowledgeGraph from './components/KnowledgeGraph';
+import CourseLibrary from './components/CourseLibrary';
+import FlashcardReview from './components/FlashcardReview';
+import ConceptsCovered from './components/ConceptsCovered';
+import Toasts, { Toast, toastFromError } from './components/Toasts';
+import AudioTutorPlayer from './components/AudioTutorPlayer';
+import VoiceSettings, { AudioMode } from './components/VoiceSettings';
+import PushToTalkButton from './components/PushToTalkButton';
+import ExportProgress from './components/ExportProgress';
+import ChatThreadBar from './components/ChatThreadBar';
+import ChatQuizCard from './components/ChatQuizCard';
+import SelectionToolbar, { TextSelection } from './components/SelectionToolbar';
+import LessonAnnotationNote from './components/LessonAnnotationNote';
+import StudyPackDialog from './components/StudyPackDialog';
+import OutlineEditor from './components/OutlineEditor';
+import StudyPlanner from './components/StudyPlanner';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
 
 const App: React.FC = () => {
   // State
-  const [syllabusFile, setSyllabusFile] = useState<string | null>(null);
+  const [courseId, setCourseId] = useState<string | null>(null);
+  const [savedCourses, setSavedCourses] = useState<SavedCourse[]>([]);
+  const [syllabusDocs, setSyllabusDocs] = useState<SyllabusDocument[] | null>(null);
   const [structure, setStructure] = useState<CourseStructure | null>(null);
   const [activeModule, setActiveModule] = useState<CourseModule | null>(null);
   const [lessonContent, setLessonContent] = useState<string>("");
@@ -24,125 +101,810 @@ const App: React.FC = () => {
   
   // Chat State
   const [chatOpen, setChatOpen] = useState(false);
-  const [chatHistory, setChatHistory] = useState<Message[]>([]);
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
   const [chatInput, setChatInput] = useState("");
   const [chatImage, setChatImage] = useState<string | null>(null);
   
   // Loading States
   const [loadingStructure, setLoadingStructure] = useState(false);
   const [loadingContent, setLoadingContent] = useState(false);
-  const [loadingAudio, setLoadingAudio] = useState(false);
   const [isChatting, setIsChatting] = useState(false);
+  const [streamingThreadId, setStreamingThreadId] = useState<string | null>(null);
+  const [speakingReply, setSpeakingReply] = useState(false);
   
   // Advanced Features State
   const [showGraph, setShowGraph] = useState(false);
+  const [graphModuleFilter, setGraphModuleFilter] = useState<string | null>(null);
   const [graphData, setGraphData] = useState<KnowledgeGraphData | null>(null);
   const [examQuestions, setExamQuestions] = useState<ExamQuestion[]>([]);
   const [showExam, setShowExam] = useState(false);
+  const [showExamSetup, setShowExamSetup] = useState(false);
+  const [examConfig, setExamConfig] = useState<ExamConfig | null>(null);
+  const [examAttempts, setExamAttempts] = useState<ExamAttempt[]>([]);
+  const [loadingExam, setLoadingExam] = useState(false);
+  const [weakSpots, setWeakSpots] = useState<WeakSpot[]>([]);
+  const [remediationLesson, setRemediationLesson] = useState("");
+  const [showRemediation, setShowRemediation] = useState(false);
+  const [loadingRemediation, setLoadingRemediation] = useState(false);
+  const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
+  const [showFlashcards, setShowFlashcards] = useState(false);
+  const [loadingFlashcards, setLoadingFlashcards] = useState(false);
+  const [progress, setProgress] = useState<ModuleProgress[]>([]);
+  const [showAudioPlayer, setShowAudioPlayer] = useState(false);
+  const [speakingBlock, setSpeakingBlock] = useState<number | null>(null);
+  const [audioMode, setAudioMode] = useState<AudioMode>('read');
+  const [dialogueLines, setDialogueLines] = useState<DialogueLine[] | null>(null);
+  const [loadingDialogue, setLoadingDialogue] = useState(false);
+  const [voicePreferences, setVoicePreferences] = useState<VoicePreferences>(loadVoicePreferences);
+  const [audioExport, setAudioExport] = useState<AudioExportProgress | null>(null);
+  const [annotations, setAnnotations] = useState<LessonAnnotation[]>([]);
+  const [textSelection, setTextSelection] = useState<TextSelection | null>(null);
+  const [pendingAnnotation, setPendingAnnotation] = useState<string | null>(null);
+  const [translationLanguage, setTranslationLanguage] = useState("Spanish");
+  const [showStudyPack, setShowStudyPack] = useState(false);
+  const [studyPackExport, setStudyPackExport] = useState<StudyPackProgress | null>(null);
+  const [showOutlineEditor, setShowOutlineEditor] = useState(false);
+  const [showStudyPlanner, setShowStudyPlanner] = useState(false);
+  const [studyPreferences, setStudyPreferences] = useState<StudyPlanOptions>(loadStudyPreferences);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [learningEvents, setLearningEvents] = useState<LearningEvent[]>([]);
+  const [analyticsAttempts, setAnalyticsAttempts] = useState<ExamAttempt[]>([]);
 
   // UI State
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [toasts, setToasts] = useState<Toast[]>([]);
 
   // Refs
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const lessonRequestRef = useRef<AbortController | null>(null);
+  // The graph generation or update in flight; a result arriving after another request started, or after
+  // the course was switched, is discarded
+  const graphRequestRef = useRef<{ courseId: string; changedModuleIds: string[] } | null>(null);
+  const audioExportRef = useRef<AbortController | null>(null);
+  const dialogueRequestRef = useRef<AbortController | null>(null);
+  const studyPackRef = useRef<AbortController | null>(null);
+  const voiceReplyRef = useRef<AudioBufferSourceNode | null>(null);
+  const savedThreadsRef = useRef<ChatThread[]>([]);
+  const lessonRef = useRef<HTMLDivElement>(null);
+  const lessonKeyRef = useRef<string | null>(null);
+
+  const getAudioContext = (): AudioContext => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    return audioContextRef.current;
+  };
 
   // Initialize Audio Context on Interaction
   useEffect(() => {
-    const initAudio = () => {
-      if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-      }
-    };
-    window.addEventListener('click', initAudio);
-    return () => window.removeEventListener('click', initAudio);
+    window.addEventListener('click', getAudioContext);
+    return () => window.removeEventListener('click', getAudioContext);
   }, []);
 
+  // The audio tutor reads the lesson block by block, or plays the dialogue written from it turn by turn
+  const speechScript = useMemo(
+    () => audioMode === 'dialogue' && dialogueLines ? buildDialogueScript(dialogueLines) : buildSpeechScript(lessonContent),
+    [audioMode, dialogueLines, lessonContent]
+  );
+
+  // Annotations sit under the lesson block their passage was selected from; ones whose passage is gone go last
+  const lessonBlocks = useMemo(() => splitMarkdownBlocks(lessonContent), [lessonContent]);
+  const annotationsByBlock = useMemo(() => {
+    const byBlock: Record<number, LessonAnnotation[]> = {};
+    annotations.forEach(a => {
+      const index = anchorBlockIndex(lessonBlocks, a.quote);
+      const block = index === -1 ? lessonBlocks.length - 1 : index;
+      (byBlock[block] = byBlock[block] || []).push(a);
+    });
+    return byBlock;
+  }, [annotations, lessonBlocks]);
+  const pendingAnnotationIndex = pendingAnnotation ? anchorBlockIndex(lessonBlocks, pendingAnnotation) : null;
+  const pendingAnnotationBlock = pendingAnnotationIndex === -1 ? lessonBlocks.length - 1 : pendingAnnotationIndex;
+
+  // Keep the block being read in view
+  useEffect(() => {
+    if (speakingBlock !== null) {
+      document.querySelector(`[data-speech-block="${speakingBlock}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [speakingBlock]);
+
+  // Knowledge graph statuses come from learner progress, not from the model
+  const progressGraph = useMemo(
+    () => graphData && structure ? computeGraphProgress(graphData, structure.modules, progress) : null,
+    [graphData, structure, progress]
+  );
+
+  // Report a failure in a toast; retryable errors get a button that re-runs the action
+  const showError = (err: unknown, fallback: string, onRetry?: () => void) => {
+    console.error(err);
+    setToasts(prev => [...prev, toastFromError(err, fallback, onRetry)]);
+  };
+
+  const showInfo = (title: string, message: string) => {
+    setToasts(prev => [...prev, { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, kind: 'info', title, message }]);
+  };
+
+  const dismissToast = (id: string) => setToasts(prev => prev.filter(t => t.id !== id));
+
+  // Load Course Library
+  const refreshCourses = () => {
+    listCourses()
+        .then(setSavedCourses)
+        .catch(err => console.error("Failed to load saved courses:", err));
+  };
+
+  useEffect(refreshCourses, []);
+
+  // Chat threads: the Sidekick shows the active thread, by default the latest one of the module on screen
+  const activeThread = chatThreads.find(t => t.id === activeThreadId) || null;
+  const chatHistory = activeThread?.messages || [];
+
+  useEffect(() => {
+    setActiveThreadId(latestThreadFor(chatThreads, activeModule?.id)?.id ?? null);
+  }, [activeModule?.id]);
+
+  // Persist every thread that changed since the last save. A streamed reply replaces its thread on every chunk,
+  // so that thread is only saved once the stream has ended.
+  useEffect(() => {
+    const saved = new Set(savedThreadsRef.current);
+    chatThreads
+        .filter(t => !saved.has(t) && t.id !== streamingThreadId)
+        .forEach(t => saveChatThread(t).catch(err => console.error("Failed to save chat:", err)));
+    savedThreadsRef.current = chatThreads.filter(t => saved.has(t) || t.id !== streamingThreadId);
+  }, [chatThreads, streamingThreadId]);
+
+  const loadChatThreads = (threads: ChatThread[], moduleId?: string) => {
+    savedThreadsRef.current = threads;
+    setChatThreads(threads);
+    setActiveThreadId(latestThreadFor(threads, moduleId)?.id ?? null);
+  };
+
+  // Generate Knowledge Graph in background and store it with the course
+  const loadKnowledgeGraph = (id: string, syllabus: SyllabusDocument[], courseStructure: CourseStructure) => {
+    const request = { courseId: id, changedModuleIds: [] };
+    graphRequestRef.current = request;
+    generateKnowledgeGraph(syllabus, courseStructure)
+        .then(graph => {
+            if (graphRequestRef.current !== request) return;
+            graphRequestRef.current = null;
+            setGraphData(graph);
+            return updateCourse(id, { graph });
+        })
+        .catch(err => {
+            if (graphRequestRef.current !== request) return;
+            graphRequestRef.current = null;
+            showError(err, "The knowledge graph could not be generated.", () => loadKnowledgeGraph(id, syllabus, courseStructure));
+        });
+  };
+
+  // After an outline edit, regenerate concepts for the changed modules only and drop those of removed ones.
+  // An update still in flight is superseded, so its modules are regenerated by this one as well.
+  const refreshKnowledgeGraph = (
+    id: string,
+    syllabus: SyllabusDocument[],
+    courseStructure: CourseStructure,
+    graph: KnowledgeGraphData,
+    changedModuleIds: string[]
+  ) => {
+    const pending = graphRequestRef.current?.courseId === id ? graphRequestRef.current.changedModuleIds : [];
+    const moduleIds = Array.from(new Set([...pending, ...changedModuleIds]))
+        .filter(moduleId => courseStructure.modules.some(m => m.id === moduleId));
+    const request = { courseId: id, changedModuleIds: moduleIds };
+    graphRequestRef.current = request;
+    updateKnowledgeGraph(syllabus, courseStructure, graph, moduleIds)
+        .then(updated => {
+            if (graphRequestRef.current !== request) return;
+            graphRequestRef.current = null;
+            setGraphData(updated);
+            return updateCourse(id, { graph: updated });
+        })
+        .catch(err => {
+            if (graphRequestRef.current !== request) return;
+            graphRequestRef.current = null;
+            showError(err, "The knowledge graph could not be updated.", () => refreshKnowledgeGraph(id, syllabus, courseStructure, graph, moduleIds));
+        });
+  };
+
+  // Resume a Saved Course. Everything is read before any state changes, so a failed read leaves the current view as it was.
+  const openCourse = async (course: SavedCourse) => {
+    try {
+        const [threads, courseFlashcards, courseProgress] = await Promise.all([
+            listChatThreads(course.id),
+            listFlashcards(course.id),
+            listProgress(course.id)
+        ]);
+        lessonRequestRef.current?.abort();
+        graphRequestRef.current = null;
+        setCourseId(course.id);
+        setSyllabusDocs(course.syllabus);
+        setStructure(course.structure);
+        setGraphData(course.graph);
+        setActiveModule(null);
+        setLessonContent("");
+        const lastModule = course.structure.modules.find(m => m.id === course.lastModuleId);
+        loadChatThreads(threads, lastModule?.id);
+        setFlashcards(courseFlashcards);
+        setProgress(courseProgress);
+        updateCourse(course.id, {}).catch(err => console.error(err));
+
+        if (!course.graph) loadKnowledgeGraph(course.id, course.syllabus, course.structure);
+
+        if (lastModule) handleModuleSelect(lastModule, course.id, course.syllabus);
+    } catch (err) {
+        showError(err, "The course could not be opened.");
+    }
+  };
+
+  // Return to the Course Library
+  const goHome = () => {
+    lessonRequestRef.current?.abort();
+    graphRequestRef.current = null;
+    setCourseId(null);
+    setSyllabusDocs(null);
+    setStructure(null);
+    setGraphData(null);
+    setActiveModule(null);
+    setLessonContent("");
+    loadChatThreads([]);
+    setFlashcards([]);
+    setProgress([]);
+    setChatOpen(false);
+    setIsMobileMenuOpen(false);
+    refreshCourses();
+  };
+
+  const handleDeleteCourse = async (id: string) => {
+    try {
+        await invalidateCourseLessons(id);
+        await deleteCourse(id);
+    } catch (err) {
+        showError(err, "The course could not be deleted.");
+    }
+    refreshCourses();
+  };
+
+  // Share a processed course as one file; opening it skips every model call already paid for
+  const handleExportCourse = async (course: SavedCourse) => {
+    try {
+        downloadBlob(await exportCourseBundle(course.id), `${safeFileName(course.structure.title)}.course.json`);
+    } catch (err) {
+        showError(err, "The course could not be exported.");
+    }
+  };
+
+  const handleImportCourse = async (file: File) => {
+    try {
+        await openCourse(await importCourseBundle(file));
+    } catch (err) {
+        showError(err, "The course file could not be opened.");
+    }
+  };
+
   // Handle File Upload
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setLoadingStructure(true);
-      try {
-        const base64 = await fileToGenerativePart(file);
-        setSyllabusFile(base64);
-        
-        // Step 1: Parse Structure
-        const struct = await parseSyllabus(base64);
-        setStructure(struct);
-
-        // Step 2: Generate Knowledge Graph in background with error handling
-        generateKnowledgeGraph(base64)
-            .then(setGraphData)
-            .catch(err => console.error("Background graph generation error:", err));
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length) {
+      processSyllabusFiles(Array.from(e.target.files));
+      e.target.value = "";
+    }
+  };
 
-      } catch (err) {
-        console.error(err);
-        alert("Failed to process syllabus. Please try again or use a smaller file.");
-      } finally {
-        setLoadingStructure(false);
+  const processSyllabusFiles = async (files: File[]) => {
+    setLoadingStructure(true);
+    try {
+      const docs = await ingestSyllabusFiles(files);
+      const id = await sha256Hex(docs.map(d => d.data ?? d.text).join("\n"));
+
+      // Same syllabus uploaded again: resume instead of regenerating
+      const existing = await getCourse(id);
+      if (existing) {
+          await openCourse(existing);
+          return;
       }
+
+      setSyllabusDocs(docs);
+      
+      // Step 1: Parse Structure
+      const struct = await parseSyllabus(docs);
+      setStructure(struct);
+      setCourseId(id);
+      setActiveModule(null);
+      setLessonContent("");
+      loadChatThreads([]);
+      setFlashcards([]);
+      setProgress([]);
+      setGraphData(null);
+
+      const now = Date.now();
+      await saveCourse({
+          id,
+          fileName: files.map(f => f.name).join(", "),
+          syllabus: docs,
+          structure: struct,
+          graph: null,
+          createdAt: now,
+          updatedAt: now
+      });
+
+      // Step 2: Generate Knowledge Graph in background with error handling
+      loadKnowledgeGraph(id, docs, struct);
+
+    } catch (err) {
+      showError(err, "Failed to process syllabus. Please try again or use a smaller file.", () => processSyllabusFiles(files));
+    } finally {
+      setLoadingStructure(false);
     }
   };
 
-  // Handle Module Selection
-  const handleModuleSelect = async (module: CourseModule) => {
-    setActiveModule(module);
-    setIsMobileMenuOpen(false); // Close mobile menu on selection
+  // Save a module's progress and reflect it in the knowledge graph.
+  // With onlyIfUnset, fields that are already recorded keep their first value.
+  const recordProgress = (id: string, moduleId: string, changes: Partial<ModuleProgress>, onlyIfUnset: boolean = false) => {
+    const existing = progress.find(p => p.moduleId === moduleId);
+    const updates = onlyIfUnset
+        ? Object.fromEntries(Object.entries(changes).filter(([key]) => existing?.[key as keyof ModuleProgress] === undefined))
+        : changes;
+    if (!Object.keys(updates).length) return;
+
+    updateProgress(id, moduleId, updates)
+        .then(saved => setProgress(prev => [...prev.filter(p => p.moduleId !== moduleId), saved]))
+        .catch(err => console.error("Failed to save progress:", err));
+  };
+
+  // Load a lesson from the cache, generating it on a miss.
+  // Starting a new load cancels the previous one so a stale response never replaces the current lesson.
+  const loadLesson = async (
+    id: string,
+    syllabus: SyllabusDocument[],
+    module: CourseModule,
+    depth: ContentDepth,
+    regenerate: boolean = false
+  ) => {
+    lessonRequestRef.current?.abort();
+    const controller = new AbortController();
+    lessonRequestRef.current = controller;
+
+    setShowAudioPlayer(false);
+    dialogueRequestRef.current?.abort();
+    setDialogueLines(null);
+    setLessonContent("");
+    setAnnotations([]);
+    setTextSelection(null);
+    lessonKeyRef.current = lessonKey(id, module.id, depth);
     setLoadingContent(true);
     try {
-        if (!syllabusFile) return;
-        const content = await generateLessonContent(syllabusFile, module.title, module.topics, contentDepth);
-        setLessonContent(content);
+        const content = await getOrGenerateLesson({
+            courseId: id,
+            syllabus,
+            module,
+            depth,
+            regenerate,
+            signal: controller.signal,
+            onPartial: partial => {
+                if (!controller.signal.aborted) setLessonContent(partial);
+            }
+        });
+        if (!controller.signal.aborted) {
+            setLessonContent(content);
+            recordProgress(id, module.id, { lessonViewedAt: Date.now() }, true);
+            setAnnotations((await getLesson(id, module.id, depth))?.annotations || []);
+        }
     } catch (err) {
-        console.error(err);
+        if (!controller.signal.aborted) {
+            showError(err, "The lesson could not be generated.", () => loadLesson(id, syllabus, module, depth, regenerate));
+        }
     } finally {
-        setLoadingContent(false);
+        if (lessonRequestRef.current === controller) {
+            lessonRequestRef.current = null;
+            setLoadingContent(false);
+        }
+    }
+  };
+
+  // Stop streaming but keep what has arrived so far on screen
+  const stopLesson = () => {
+    lessonRequestRef.current?.abort();
+  };
+
+  const regenerateLesson = () => {
+    if (!activeModule || !syllabusDocs || !courseId) return;
+    loadLesson(courseId, syllabusDocs, activeModule, contentDepth, true);
+  };
+
+  const clearLessonCache = async () => {
+    if (!courseId || !confirm("Clear every saved lesson for this course? They will be regenerated when opened.")) return;
+    await invalidateCourseLessons(courseId);
+    if (activeModule && syllabusDocs) loadLesson(courseId, syllabusDocs, activeModule, contentDepth);
+  };
+
+  // Save a corrected outline. Saved lessons of changed and removed modules are discarded so they are
+  // regenerated when opened; everything generated for untouched modules is kept.
+  const saveOutline = async (edited: CourseStructure) => {
+    if (!courseId || !syllabusDocs || !structure) return;
+    const { changed, removed } = outlineChanges(structure.modules, edited.modules);
+    const now = Date.now();
+    const next: CourseStructure = {
+        ...edited,
+        modules: edited.modules.map(m => changed.includes(m.id) ? { ...m, revisedAt: now } : m)
+    };
+    setShowOutlineEditor(false);
+    setStructure(next);
+    try {
+        await Promise.all([...changed, ...removed].map(id => invalidateLesson(courseId, id)));
+        await updateCourse(courseId, { structure: next });
+    } catch (err) {
+        showError(err, "The outline could not be saved.", () => saveOutline(edited));
+        return;
+    }
+
+    if (graphData) {
+        if (changed.length || removed.length) refreshKnowledgeGraph(courseId, syllabusDocs, next, graphData, changed);
+    } else {
+        loadKnowledgeGraph(courseId, syllabusDocs, next);
     }
+
+    const current = activeModule && next.modules.find(m => m.id === activeModule.id);
+    if (!current) {
+        lessonRequestRef.current?.abort();
+        setActiveModule(null);
+        setLessonContent("");
+    } else if (changed.includes(current.id)) {
+        handleModuleSelect(current);
+    } else {
+        setActiveModule(current);
+    }
+  };
+
+  // Handle Module Selection
+  const handleModuleSelect = async (
+    module: CourseModule,
+    id: string | null = courseId,
+    syllabus: SyllabusDocument[] | null = syllabusDocs
+  ) => {
+    setActiveModule(module);
+    setIsMobileMenuOpen(false); // Close mobile menu on selection
+    if (!syllabus || !id) return;
+    logEvent(id, 'module_opened', { moduleId: module.id, depth: contentDepth });
+    updateCourse(id, { lastModuleId: module.id }).catch(err => console.error(err));
+    await loadLesson(id, syllabus, module, contentDepth);
   };
 
+  // Time on the lesson on screen, per module and depth, for the analytics dashboard
+  useEffect(() => {
+    if (!courseId || !activeModule) return;
+    return startLessonTimer(courseId, activeModule.id, contentDepth);
+  }, [courseId, activeModule?.id, contentDepth]);
+
   // Handle Depth Change
   useEffect(() => {
-    if (activeModule && syllabusFile) {
-        setLoadingContent(true);
-        generateLessonContent(syllabusFile, activeModule.title, activeModule.topics, contentDepth)
-            .then(setLessonContent)
-            .finally(() => setLoadingContent(false));
+    if (activeModule && syllabusDocs && courseId) {
+        loadLesson(courseId, syllabusDocs, activeModule, contentDepth);
     }
   }, [contentDepth]);
 
-  // Handle Audio Tutor
-  const playAudioTutor = async () => {
-    if (!lessonContent) return;
-    setLoadingAudio(true);
+  const updateVoicePreferences = (preferences: VoicePreferences) => {
+    setVoicePreferences(preferences);
+    saveVoicePreferences(preferences);
+  };
+
+  // Dialogue mode needs a script written from the current lesson first; it is saved alongside the lesson
+  const selectAudioMode = async (mode: AudioMode) => {
+    setAudioMode(mode);
+    if (mode !== 'dialogue' || dialogueLines || !courseId || !activeModule || !lessonContent) return;
+
+    dialogueRequestRef.current?.abort();
+    const controller = new AbortController();
+    dialogueRequestRef.current = controller;
+    setLoadingDialogue(true);
     try {
-        // Summarize logic could be added here to avoid reading strict markdown syntax
-        const textToRead = lessonContent.substring(0, 500); // Limit for demo speed
-        const audioBase64 = await generateAudioLesson(textToRead);
-        
-        if (audioBase64 && audioContextRef.current) {
-            const buffer = await decodeAudioData(audioBase64, audioContextRef.current);
-            playAudioBuffer(buffer, audioContextRef.current);
+        const lines = await getOrGenerateDialogue(courseId, activeModule, contentDepth, lessonContent, controller.signal);
+        if (!controller.signal.aborted) setDialogueLines(lines);
+    } catch (err) {
+        if (!controller.signal.aborted) {
+            setAudioMode('read');
+            showError(err, "The dialogue could not be written.", () => selectAudioMode('dialogue'));
+        }
+    } finally {
+        if (dialogueRequestRef.current === controller) {
+            dialogueRequestRef.current = null;
+            setLoadingDialogue(false);
+        }
+    }
+  };
+
+  const openAudioPlayer = () => {
+    setShowAudioPlayer(!showAudioPlayer);
+    if (!showAudioPlayer && audioMode === 'dialogue') selectAudioMode('dialogue');
+  };
+
+  // Download a module's lesson, or the whole course as one podcast, as a WAV file for offline listening
+  const downloadAudio = async (scope: 'module' | 'course') => {
+    if (!courseId || !syllabusDocs || !structure || audioExportRef.current) return;
+    if (scope === 'module' && !activeModule) return;
+    const controller = new AbortController();
+    audioExportRef.current = controller;
+    setAudioExport({ label: 'Preparing audio', done: 0, total: 0 });
+    try {
+        const blob = scope === 'module' && activeModule
+            ? await exportModuleAudio(courseId, syllabusDocs, activeModule, contentDepth, voicePreferences.voice, setAudioExport, controller.signal)
+            : await exportCourseAudio(courseId, syllabusDocs, structure, contentDepth, voicePreferences.voice, setAudioExport, controller.signal);
+        const title = scope === 'module' && activeModule ? activeModule.title : structure.title;
+        downloadBlob(blob, `${safeFileName(title)} (${contentDepth}).wav`);
+    } catch (err) {
+        if (!controller.signal.aborted) showError(err, "The audio could not be exported.", () => downloadAudio(scope));
+    } finally {
+        audioExportRef.current = null;
+        setAudioExport(null);
+    }
+  };
+
+  // The whole course as one printable document; lessons that were never opened are generated on the way
+  const exportStudyPack = async (format: StudyPackFormat, options: StudyPackOptions) => {
+    if (!courseId || !syllabusDocs || !structure || studyPackRef.current) return;
+    const controller = new AbortController();
+    studyPackRef.current = controller;
+    setShowStudyPack(false);
+    setStudyPackExport({ label: 'Preparing the study pack', done: 0, total: 0 });
+    try {
+        const pack = await assembleStudyPack(courseId, syllabusDocs, structure, progressGraph, options, setStudyPackExport, controller.signal);
+        const fileName = `${safeFileName(structure.title)} study pack (${options.depth})`;
+        if (format === 'markdown') {
+            downloadBlob(new Blob([studyPackToMarkdown(pack)], { type: 'text/markdown' }), `${fileName}.md`);
+        } else if (format === 'html') {
+            downloadBlob(new Blob([studyPackToHtml(pack)], { type: 'text/html' }), `${fileName}.html`);
+        } else {
+            printHtml(studyPackToHtml(pack));
         }
     } catch (err) {
-        console.error(err);
+        if (!controller.signal.aborted) showError(err, "The study pack could not be created.", () => exportStudyPack(format, options));
     } finally {
-        setLoadingAudio(false);
+        studyPackRef.current = null;
+        setStudyPackExport(null);
     }
   };
 
+  // Study planner: corrected exam dates are saved with the course; available hours are kept per browser
+  const updateStudyPreferences = (preferences: StudyPlanOptions) => {
+    setStudyPreferences(preferences);
+    saveStudyPreferences(preferences);
+  };
+
+  const updateAssessments = (assessments: Assessment[]) => {
+    if (!courseId || !structure) return;
+    const next = { ...structure, assessments };
+    setStructure(next);
+    updateCourse(courseId, { structure: next }).catch(err => showError(err, "The assessment dates could not be saved."));
+  };
+
+  const exportStudyCalendar = (plan: StudyPlan) => {
+    if (!courseId || !structure) return;
+    const ics = studyPlanToIcs(plan, structure, courseId, loadCalendarExport(courseId));
+    saveCalendarExport(courseId, calendarEventDates(plan, structure));
+    downloadBlob(new Blob([ics], { type: 'text/calendar' }), `${safeFileName(structure.title)} study plan.ics`);
+  };
+
   // Handle Exam
-  const startExam = async () => {
-      if (!activeModule || !syllabusFile) return;
-      const questions = await generateExam(syllabusFile, activeModule.title);
-      setExamQuestions(questions);
-      setShowExam(true);
+  const openExamSetup = async () => {
+      setExamAttempts([]);
+      setShowExamSetup(true);
+      if (!courseId || !activeModule) return;
+      try {
+          setExamAttempts(await listExamAttempts(courseId, activeModule.id));
+      } catch (err) {
+          showError(err, "Your past exam scores could not be loaded.");
+      }
+  };
+
+  const startExam = async (config: ExamConfig) => {
+      if (!syllabusDocs || !structure) return;
+      setLoadingExam(true);
+      try {
+          const modules = structure.modules.filter(m => config.moduleIds.includes(m.id));
+          const questions = await generateExam(syllabusDocs, modules, config);
+          setExamConfig(config);
+          setExamQuestions(questions);
+          setShowExamSetup(false);
+          setShowRemediation(false);
+          setShowExam(true);
+      } catch (err) {
+          showError(err, "Could not generate an exam.", () => startExam(config));
+      } finally {
+          setLoadingExam(false);
+      }
+  };
+
+  const handleExamSubmit = async (answers: Record<number, ExamAnswer>, durationSeconds: number) => {
+      const results = await gradeExam(examQuestions, answers);
+      if (courseId && examConfig) {
+          saveExamAttempt({
+              id: Date.now().toString(),
+              courseId,
+              moduleId: activeModule && examConfig.moduleIds.includes(activeModule.id) ? activeModule.id : examConfig.moduleIds[0],
+              moduleIds: examConfig.moduleIds,
+              config: examConfig,
+              questions: examQuestions,
+              answers,
+              results,
+              score: totalScore(results),
+              total: examQuestions.length,
+              durationSeconds,
+              completedAt: Date.now()
+          }).catch(err => console.error("Failed to save exam attempt:", err));
+          logEvent(courseId, 'exam_completed', {
+              moduleIds: examConfig.moduleIds,
+              score: totalScore(results),
+              total: examQuestions.length,
+              seconds: durationSeconds
+          });
+
+          // Passing an exam completes the module's concepts in the knowledge graph
+          Object.entries(scoreByModule(examQuestions, results, examConfig.moduleIds)).forEach(([moduleId, score]) => {
+              const existing = progress.find(p => p.moduleId === moduleId);
+              recordProgress(courseId, moduleId, {
+                  bestExamScore: Math.max(score, existing?.bestExamScore || 0),
+                  ...(score >= PASSING_SCORE && !existing?.examPassedAt ? { examPassedAt: Date.now() } : {})
+              });
+          });
+      }
+      return results;
+  };
+
+  // Clicking a concept opens the module that teaches it
+  const handleConceptClick = (nodeId: string) => {
+      if (!graphData || !structure) return;
+      const module = mapConceptsToModules(graphData, structure.modules)[nodeId];
+      if (!module) return;
+      setShowGraph(false);
+      handleModuleSelect(module);
+  };
+
+  // Handle Remediation: re-teach only the topics behind wrong answers, then re-test them
+  const handleReviewMistakes = async (results: QuestionResult[]) => {
+      if (!structure || !syllabusDocs) return;
+      const spots = findWeakSpots(examQuestions, results, structure.modules);
+      setWeakSpots(spots);
+      setRemediationLesson("");
+      setShowExam(false);
+      setShowRemediation(true);
+      setLoadingRemediation(true);
+      try {
+          setRemediationLesson(await generateRemediationLesson(syllabusDocs, spots));
+      } catch (err) {
+          console.error(err);
+          setRemediationLesson("Failed to generate the review lesson. You can still take the follow-up quiz.");
+      } finally {
+          setLoadingRemediation(false);
+      }
   };
 
+  const startFollowUpExam = () => {
+      if (!examConfig) return;
+      startExam({
+          ...examConfig,
+          questionCount: Math.min(5, Math.max(3, weakSpots.length * 2)),
+          moduleIds: Array.from(new Set(weakSpots.map(s => s.moduleId))),
+          topics: weakSpots.map(s => s.topic),
+          timeLimitMinutes: null
+      });
+  };
+
+  // Handle Flashcards
+  const createModuleFlashcards = async () => {
+      if (!activeModule || !courseId) return;
+      setLoadingFlashcards(true);
+      try {
+          const generated = await generateFlashcards(activeModule);
+          const existingIds = new Set(flashcards.map(c => c.id));
+          const newCards = generated
+              .map(c => createFlashcard(courseId, activeModule.id, c.term, c.definition))
+              .filter(c => !existingIds.has(c.id));
+          await saveFlashcards(newCards);
+          setFlashcards(prev => [...prev, ...newCards]);
+          setShowFlashcards(true);
+      } catch (err) {
+          showError(err, "Flashcards could not be generated.", createModuleFlashcards);
+      } finally {
+          setLoadingFlashcards(false);
+      }
+  };
+
+  const handleFlashcardReview = (card: Flashcard) => {
+      setFlashcards(prev => prev.map(c => c.id === card.id ? card : c));
+      saveFlashcards([card]).catch(err => console.error("Failed to save flashcard:", err));
+      logEvent(card.courseId, 'flashcard_reviewed', { moduleId: card.moduleId });
+  };
+
+  // Learner analytics: read fresh from the event log and saved exams each time the dashboard opens
+  const openAnalytics = async () => {
+      if (!courseId) return;
+      setIsMobileMenuOpen(false);
+      try {
+          const [events, attempts] = await Promise.all([listEvents(courseId), listExamAttempts(courseId)]);
+          setLearningEvents(events);
+          setAnalyticsAttempts(attempts);
+          setShowAnalytics(true);
+      } catch (err) {
+          showError(err, "Your learning history could not be loaded.");
+      }
+  };
+
+  const exportAnalyticsCsv = () => {
+      if (!structure) return;
+      const csv = eventsToCsv(learningEvents, structure.modules);
+      downloadBlob(new Blob([csv], { type: 'text/csv' }), `${safeFileName(structure.title)} activity.csv`);
+  };
+
+  const dueFlashcards = getDueCards(flashcards);
+
+  // The course passages relevant to a question, from any module, for the Sidekick to answer from and cite
+  const buildSidekickContext = async (query: string): Promise<SidekickContext> => ({
+      moduleTitle: activeModule?.title,
+      passages: courseId && syllabusDocs && structure
+          ? await retrieveCourseContext({
+              courseId,
+              syllabus: syllabusDocs,
+              structure,
+              query,
+              currentModuleId: activeModule?.id,
+              depth: contentDepth
+          })
+          : [],
+      documents: syllabusDocs?.filter(d => d.text === undefined)
+  });
+
   // Handle Chat
+  const updateThread = (threadId: string, update: (thread: ChatThread) => ChatThread) => {
+      setChatThreads(prev => prev.map(t => t.id === threadId ? update(t) : t));
+  };
+
+  const appendMessages = (threadId: string, messages: Message[]) => {
+      updateThread(threadId, t => ({ ...t, messages: [...t.messages, ...messages], updatedAt: Date.now() }));
+  };
+
+  const updateMessage = (threadId: string, messageId: string, changes: Partial<Message>) => {
+      updateThread(threadId, t => ({ ...t, messages: t.messages.map(m => m.id === messageId ? { ...m, ...changes } : m) }));
+  };
+
+  const startChatThread = (module: CourseModule | null): ChatThread | null => {
+      if (!courseId) return null;
+      const thread = createChatThread(courseId, module || undefined);
+      setChatThreads(prev => [thread, ...prev]);
+      setActiveThreadId(thread.id);
+      return thread;
+  };
+
+  const deleteThread = (thread: ChatThread) => {
+      setChatThreads(prev => prev.filter(t => t.id !== thread.id));
+      if (thread.id === activeThreadId) setActiveThreadId(null);
+      deleteChatThread(thread.id).catch(err => console.error("Failed to delete chat:", err));
+  };
+
+  const exportThread = (thread: ChatThread) => {
+      const markdown = threadToMarkdown(thread, structure?.title || "Course");
+      downloadBlob(new Blob([markdown], { type: 'text/markdown' }), `${safeFileName(thread.title)}.md`);
+  };
+
+  // The history sent with the next message. Older turns of a long thread are folded into its summary first.
+  const historyFor = async (thread: ChatThread) => {
+      const older = messagesToSummarize(thread);
+      if (!older.length) return toApiHistory(thread);
+      try {
+          const summary = await summarizeConversation(thread.summary, older);
+          const summarizedCount = (thread.summarizedCount || 0) + older.length;
+          updateThread(thread.id, t => ({ ...t, summary, summarizedCount }));
+          return toApiHistory({ ...thread, summary, summarizedCount });
+      } catch (err) {
+          // The full history still works, it is just larger
+          console.error("Failed to summarize chat:", err);
+          return toApiHistory(thread);
+      }
+  };
+
   const handleSendMessage = async () => {
       if (!chatInput.trim() && !chatImage) return;
+      if (isQuizRequest(chatInput) && !chatImage) return startChatQuiz(chatInput);
+      const thread = activeThread || startChatThread(activeModule);
+      if (!thread) return;
 
       const userMsg: Message = {
           id: Date.now().toString(),
@@ -150,44 +912,224 @@ const App: React.FC = () => {
           content: chatInput,
           timestamp: Date.now()
       };
-      setChatHistory(prev => [...prev, userMsg]);
+      appendMessages(thread.id, [userMsg]);
+      if (courseId) logEvent(courseId, 'chat_question', { moduleId: activeModule?.id, inputMode: 'text' });
       setChatInput("");
       setChatImage(null);
       setIsChatting(true);
+      setStreamingThreadId(thread.id);
 
       try {
-          // Construct history for Gemini
-          const apiHistory = chatHistory.map(h => ({
-              role: h.role,
-              parts: [{ text: h.content }]
-          }));
+          const apiHistory = await historyFor(thread);
+          const context = await buildSidekickContext(userMsg.content);
+          const modelMsgId = (Date.now() + 1).toString();
+          let started = false;
+          let reply = "";
 
-          const context = lessonContent || "General Syllabus Context";
-          const responseText = await chatWithSidekick(apiHistory, userMsg.content, context, chatImage || undefined);
+          // Show the reply token by token: add the message on the first chunk, then update it in place
+          for await (const partial of streamChatWithSidekick(apiHistory, userMsg.content, context, chatImage || undefined)) {
+              reply = partial;
+              if (!started) {
+                  started = true;
+                  setIsChatting(false);
+                  appendMessages(thread.id, [{ id: modelMsgId, role: 'model', content: partial, timestamp: Date.now() }]);
+              } else {
+                  updateMessage(thread.id, modelMsgId, { content: partial });
+              }
+              chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+          }
 
-          const modelMsg: Message = {
-              id: (Date.now() + 1).toString(),
+          if (!started) {
+              const modelMsg: Message = {
+                  id: modelMsgId,
+                  role: 'model',
+                  content: "I couldn't understand that.",
+                  timestamp: Date.now()
+              };
+              appendMessages(thread.id, [modelMsg]);
+          } else {
+              updateMessage(thread.id, modelMsgId, { sources: citedSources(reply, context.passages) });
+          }
+      } catch (err) {
+          showError(err, "The Sidekick could not reply. Please send your message again.");
+      } finally {
+          setIsChatting(false);
+          setStreamingThreadId(null);
+          chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+      }
+  };
+
+  // "Quiz me": interactive questions on the module on screen (or the whole course), focused on what was just asked
+  const startChatQuiz = async (request: string = "Quiz me") => {
+      if (!structure) return;
+      const thread = activeThread || startChatThread(activeModule);
+      if (!thread) return;
+
+      const now = Date.now();
+      appendMessages(thread.id, [{ id: now.toString(), role: 'user', content: request, timestamp: now }]);
+      setChatInput("");
+      setIsChatting(true);
+      try {
+          const recentQuestions = thread.messages.filter(m => m.role === 'user').slice(-3).map(m => m.content);
+          const modules = activeModule ? [activeModule] : structure.modules;
+          const context = await buildSidekickContext(recentQuestions.join(" ") || modules.map(m => m.title).join(" "));
+          const questions = await generateChatQuiz(modules, context, recentQuestions);
+          appendMessages(thread.id, [{
+              id: (now + 1).toString(),
               role: 'model',
-              content: responseText,
-              timestamp: Date.now()
+              content: `Here are ${questions.length} questions on ${activeModule ? activeModule.title : structure.title}. Answer them, then check your answers.`,
+              timestamp: Date.now(),
+              quiz: { questions }
+          }]);
+      } catch (err) {
+          showError(err, "The Sidekick could not write a quiz.", () => startChatQuiz(request));
+      } finally {
+          setIsChatting(false);
+          chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+      }
+  };
+
+  // Grade a chat quiz, keep the answers with the message and count them towards each module's practice record
+  const submitChatQuiz = async (threadId: string, messageId: string, quiz: ChatQuiz, answers: Record<number, ExamAnswer>) => {
+      const results = await gradeExam(quiz.questions, answers);
+      updateMessage(threadId, messageId, { quiz: { ...quiz, answers, results } });
+      const thread = chatThreads.find(t => t.id === threadId);
+      if (courseId) {
+          logEvent(courseId, 'quiz_completed', { moduleId: thread?.moduleId, score: totalScore(results), total: quiz.questions.length });
+          Object.entries(tallyQuizByModule(quiz.questions, results, thread?.moduleId)).forEach(([moduleId, tally]) => {
+              const existing = progress.find(p => p.moduleId === moduleId);
+              recordProgress(courseId, moduleId, {
+                  quizQuestionsAnswered: (existing?.quizQuestionsAnswered || 0) + tally.answered,
+                  quizPoints: (existing?.quizPoints || 0) + tally.points,
+                  lastQuizAt: Date.now()
+              });
+          });
+      }
+      return results;
+  };
+
+  const stopVoiceReply = () => {
+      const source = voiceReplyRef.current;
+      voiceReplyRef.current = null;
+      if (source) {
+          source.onended = null;
+          source.stop();
+      }
+      setSpeakingReply(false);
+  };
+
+  // Push-to-talk: the recording goes to the model with the lesson as context, and the reply is spoken back
+  const handleVoiceMessage = async (recording: VoiceRecording) => {
+      const thread = activeThread || startChatThread(activeModule);
+      if (!thread) return;
+      stopVoiceReply();
+      setIsChatting(true);
+      try {
+          const apiHistory = await historyFor(thread);
+          // The question is only known once the model has heard it, so retrieval goes by the recent conversation
+          const recentQuestions = thread.messages.filter(m => m.role === 'user').slice(-2).map(m => m.content).join(" ");
+          const context = await buildSidekickContext(recentQuestions || activeModule?.title || "");
+          const { transcript, reply } = await voiceChatWithSidekick(apiHistory, recording, context);
+
+          const now = Date.now();
+          appendMessages(thread.id, [
+              { id: now.toString(), role: 'user', content: transcript || "(inaudible)", timestamp: now, inputMode: 'voice' },
+              { id: (now + 1).toString(), role: 'model', content: reply, timestamp: now, inputMode: 'voice', sources: citedSources(reply, context.passages) }
+          ]);
+          if (courseId) logEvent(courseId, 'chat_question', { moduleId: activeModule?.id, inputMode: 'voice' });
+          setIsChatting(false);
+          chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+
+          const audio = await generateAudioLesson(markdownToSpeechText(stripCitations(reply)), { voice: voicePreferences.voice });
+          if (!audio) return;
+          const audioContext = getAudioContext();
+          const source = playAudioBuffer(await decodeAudioData(audio, audioContext), audioContext);
+          voiceReplyRef.current = source;
+          setSpeakingReply(true);
+          source.onended = () => {
+              if (voiceReplyRef.current === source) stopVoiceReply();
           };
-          setChatHistory(prev => [...prev, modelMsg]);
       } catch (err) {
-          console.error(err);
+          showError(err, "The Sidekick could not answer your recording. Please try again.");
       } finally {
           setIsChatting(false);
           chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
       }
   };
 
-  // Explain Selection
-  const handleExplainSelection = async () => {
-      const selection = window.getSelection()?.toString();
-      if (!selection) return;
+  // Explain Selection: a toolbar over text selected in the lesson
+  const handleLessonMouseUp = () => {
+      const selection = window.getSelection();
+      const text = selection?.toString().trim();
+      if (!selection || !text || !lessonContent || !lessonRef.current?.contains(selection.anchorNode)) {
+          setTextSelection(null);
+          return;
+      }
+      const rect = selection.getRangeAt(0).getBoundingClientRect();
+      setTextSelection({ text, top: rect.top, left: rect.left + rect.width / 2 });
+  };
+
+  const clearTextSelection = () => {
+      setTextSelection(null);
+      window.getSelection()?.removeAllRanges();
+  };
 
+  // The explanation is saved with the lesson it was asked from, even if the learner has moved on meanwhile
+  const annotatePassage = async (quote: string, style: ExplanationStyle, language?: string) => {
+      if (!courseId || !activeModule) return;
+      const lesson = { courseId, moduleId: activeModule.id, depth: contentDepth };
+      setPendingAnnotation(quote);
+      try {
+          const content = await explainPassage(activeModule, quote, style, language);
+          const annotation: LessonAnnotation = { id: Date.now().toString(), quote, style, language, content, createdAt: Date.now() };
+          const saved = (await getLesson(lesson.courseId, lesson.moduleId, lesson.depth))?.annotations || [];
+          const next = [...saved, annotation];
+          await saveLessonAnnotations(lesson.courseId, lesson.moduleId, lesson.depth, next);
+          if (lessonKeyRef.current === lessonKey(lesson.courseId, lesson.moduleId, lesson.depth)) setAnnotations(next);
+      } catch (err) {
+          showError(err, "The explanation could not be generated.", () => annotatePassage(quote, style, language));
+      } finally {
+          setPendingAnnotation(null);
+      }
+  };
+
+  const explainSelection = (style: ExplanationStyle) => {
+      if (!textSelection) return;
+      let language: string | undefined;
+      if (style === 'translate') {
+          language = prompt("Translate into which language?", translationLanguage)?.trim();
+          if (!language) return;
+          setTranslationLanguage(language);
+      }
+      clearTextSelection();
+      annotatePassage(textSelection.text, style, language);
+  };
+
+  const deleteAnnotation = (annotationId: string) => {
+      if (!courseId || !activeModule) return;
+      const next = annotations.filter(a => a.id !== annotationId);
+      setAnnotations(next);
+      saveLessonAnnotations(courseId, activeModule.id, contentDepth, next).catch(err => console.error("Failed to save annotations:", err));
+  };
+
+  const addPassageToFlashcards = async (passage: string) => {
+      if (!courseId || !activeModule) return;
+      try {
+          const { term, definition } = await generatePassageFlashcard(activeModule, passage);
+          const card = createFlashcard(courseId, activeModule.id, term, definition);
+          await saveFlashcards([card]);
+          setFlashcards(prev => [...prev.filter(c => c.id !== card.id), card]);
+          showInfo("Added to flashcards", term);
+      } catch (err) {
+          showError(err, "The flashcard could not be created.", () => addPassageToFlashcards(passage));
+      }
+  };
+
+  const askSidekickAboutSelection = () => {
+      if (!textSelection) return;
       setChatOpen(true);
-      setChatInput(`Explain this specific part to me like I'm 5: "${selection}"`);
-      // User still needs to press send, or we can auto-send. Let's auto-fill.
+      setChatInput(`Can you help me understand this part: "${textSelection.text}"`);
+      clearTextSelection();
   };
 
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -197,33 +1139,20 @@ const App: React.FC = () => {
       }
   };
 
-  // RENDER: Upload Screen
+  // RENDER: Course Library / Upload Screen
   if (!structure && !loadingStructure) {
       return (
-          <div className="flex items-center justify-center min-h-screen bg-slate-50">
-              <div className="text-center space-y-6 p-10 bg-white rounded-2xl shadow-xl max-w-lg w-full">
-                  <div className="w-20 h-20 bg-blue-600 rounded-full flex items-center justify-center mx-auto text-white text-4xl">
-                      <i className="fas fa-book-open"></i>
-                  </div>
-                  <h1 className="text-3xl font-bold text-slate-800">Syllabus Engine</h1>
-                  <p className="text-slate-500">Upload your course syllabus PDF to generate an interactive AI tutor.</p>
-                  
-                  <div 
-                    onClick={() => fileInputRef.current?.click()}
-                    className="border-2 border-dashed border-blue-200 bg-blue-50 rounded-xl p-10 cursor-pointer hover:bg-blue-100 transition-colors"
-                  >
-                      <i className="fas fa-cloud-upload-alt text-4xl text-blue-400 mb-2"></i>
-                      <p className="font-medium text-blue-700">Click to upload PDF</p>
-                      <input 
-                        ref={fileInputRef} 
-                        type="file" 
-                        accept="application/pdf" 
-                        className="hidden" 
-                        onChange={handleFileUpload}
-                      />
-                  </div>
-              </div>
-          </div>
+          <>
+            <CourseLibrary
+              courses={savedCourses}
+              onUpload={handleFileUpload}
+              onOpen={openCourse}
+              onDelete={handleDeleteCourse}
+              onImport={handleImportCourse}
+              onExport={handleExportCourse}
+            />
+            <Toasts toasts={toasts} onDismiss={dismissToast} />
+          </>
       );
   }
 
@@ -256,13 +1185,26 @@ const App: React.FC = () => {
                 <h1 className="font-bold text-xl text-slate-800 tracking-tight">{structure?.title}</h1>
                 <p className="text-xs text-slate-500 mt-1 line-clamp-2">{structure?.description}</p>
             </div>
+            <button onClick={goHome} className="text-slate-400 hover:text-slate-700 ml-2 shrink-0" title="All courses">
+                <i className="fas fa-home"></i>
+            </button>
             {/* Close button for mobile */}
             <button onClick={() => setIsMobileMenuOpen(false)} className="md:hidden text-slate-400">
                 <i className="fas fa-times"></i>
             </button>
         </div>
         <div className="flex-1 overflow-y-auto min-h-0 p-3 space-y-1">
-            <div className="px-3 py-2 text-xs font-bold text-slate-400 uppercase tracking-wider">Modules</div>
+            <div className="px-3 py-2 flex items-center justify-between">
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Modules</span>
+                <button
+                    onClick={() => { setShowOutlineEditor(true); setIsMobileMenuOpen(false); }}
+                    disabled={!structure}
+                    className="text-xs text-slate-400 hover:text-blue-600 transition"
+                    title="Rename, reorder, split or merge modules"
+                >
+                    <i className="fas fa-pen mr-1"></i>Edit outline
+                </button>
+            </div>
             {(!structure?.modules || structure.modules.length === 0) && (
                 <div className="px-3 py-4 text-sm text-slate-500 italic text-center">
                     No modules found. Please try uploading the syllabus again.
@@ -270,26 +1212,76 @@ const App: React.FC = () => {
             )}
             {structure?.modules?.map((mod, idx) => (
                 <button
-                    key={idx}
+                    key={mod.id}
                     onClick={() => handleModuleSelect(mod)}
                     className={`w-full text-left px-3 py-2.5 rounded-lg text-sm transition-colors flex items-center justify-between group ${
-                        activeModule?.title === mod.title 
+                        activeModule?.id === mod.id 
                         ? 'bg-blue-50 text-blue-700 font-medium' 
                         : 'text-slate-600 hover:bg-slate-50'
                     }`}
                 >
                     <span className="truncate">{idx + 1}. {mod.title}</span>
-                    {activeModule?.title === mod.title && <i className="fas fa-chevron-right text-xs shrink-0 ml-2"></i>}
+                    <span className="flex items-center gap-1 shrink-0 ml-2">
+                        {isModuleCompleted(progress.find(p => p.moduleId === mod.id)) && (
+                            <i className="fas fa-check-circle text-emerald-500 text-xs" title="Lesson viewed and exam passed"></i>
+                        )}
+                        {activeModule?.id === mod.id && <i className="fas fa-chevron-right text-xs"></i>}
+                    </span>
                 </button>
             ))}
         </div>
         <div className="p-4 border-t border-slate-100 shrink-0">
              <button 
-                onClick={() => { setShowGraph(true); setIsMobileMenuOpen(false); }}
+                onClick={() => { setGraphModuleFilter(null); setShowGraph(true); setIsMobileMenuOpen(false); }}
                 className="w-full flex items-center justify-center gap-2 bg-indigo-50 text-indigo-700 py-2 rounded-lg text-sm font-medium hover:bg-indigo-100 transition"
              >
                  <i className="fas fa-project-diagram"></i> View Knowledge Graph
              </button>
+             <button 
+                onClick={() => { setShowStudyPlanner(true); setIsMobileMenuOpen(false); }}
+                className="w-full mt-2 flex items-center justify-center gap-2 bg-emerald-50 text-emerald-700 py-2 rounded-lg text-sm font-medium hover:bg-emerald-100 transition"
+             >
+                 <i className="fas fa-calendar-alt"></i> Study Planner
+             </button>
+             <button 
+                onClick={openAnalytics}
+                className="w-full mt-2 flex items-center justify-center gap-2 bg-sky-50 text-sky-700 py-2 rounded-lg text-sm font-medium hover:bg-sky-100 transition"
+             >
+                 <i className="fas fa-chart-line"></i> Learning Analytics
+             </button>
+             <button 
+                onClick={() => { setShowFlashcards(true); setIsMobileMenuOpen(false); }}
+                className="w-full mt-2 flex items-center justify-center gap-2 bg-amber-50 text-amber-700 py-2 rounded-lg text-sm font-medium hover:bg-amber-100 transition"
+             >
+                 <i className="fas fa-clone"></i> Review Flashcards
+                 {dueFlashcards.length > 0 && (
+                     <span className="bg-amber-500 text-white text-xs rounded-full px-2">{dueFlashcards.length}</span>
+                 )}
+             </button>
+             {canSynthesizeSpeech && (
+                 <button 
+                    onClick={() => downloadAudio('course')}
+                    disabled={!!audioExport}
+                    className="w-full mt-2 flex items-center justify-center gap-2 bg-slate-50 text-slate-600 py-2 rounded-lg text-sm font-medium hover:bg-slate-100 transition disabled:opacity-50"
+                    title="Every module read aloud, in one WAV file"
+                 >
+                     <i className="fas fa-podcast"></i> Download Course Podcast
+                 </button>
+             )}
+             <button 
+                onClick={() => { setShowStudyPack(true); setIsMobileMenuOpen(false); }}
+                disabled={!!studyPackExport}
+                className="w-full mt-2 flex items-center justify-center gap-2 bg-slate-50 text-slate-600 py-2 rounded-lg text-sm font-medium hover:bg-slate-100 transition disabled:opacity-50"
+                title="Every lesson, with questions and an answer key, ready to print"
+             >
+                 <i className="fas fa-print"></i> Study Pack
+             </button>
+             <button 
+                onClick={clearLessonCache}
+                className="w-full mt-2 text-xs text-slate-400 hover:text-slate-600 transition"
+             >
+                 <i className="fas fa-eraser mr-1"></i> Clear saved lessons
+             </button>
         </div>
       </div>
 
@@ -327,17 +1319,37 @@ const App: React.FC = () => {
                       ))}
                   </div>
 
+                  {canSynthesizeSpeech && (
+                      <>
+                          <button 
+                            onClick={openAudioPlayer}
+                            disabled={loadingContent || !lessonContent}
+                            className={`p-2 transition ${showAudioPlayer ? 'text-blue-600' : 'text-slate-500 hover:text-blue-600'}`}
+                            title="Podcast Mode"
+                          >
+                              <i className="fas fa-headphones"></i>
+                          </button>
+                          <button 
+                            onClick={() => downloadAudio('module')}
+                            disabled={!!audioExport || !activeModule}
+                            className="p-2 text-slate-500 hover:text-blue-600 transition"
+                            title="Download audio"
+                          >
+                              <i className="fas fa-file-download"></i>
+                          </button>
+                      </>
+                  )}
                   <button 
-                    onClick={playAudioTutor}
-                    disabled={loadingAudio || !lessonContent}
-                    className="p-2 text-slate-500 hover:text-blue-600 transition"
-                    title="Podcast Mode"
+                    onClick={createModuleFlashcards}
+                    disabled={loadingFlashcards || !activeModule}
+                    className="p-2 text-slate-500 hover:text-amber-600 transition"
+                    title="Make flashcards for this module"
                   >
-                      {loadingAudio ? <i className="fas fa-spinner fa-spin"></i> : <i className="fas fa-headphones"></i>}
+                      {loadingFlashcards ? <i className="fas fa-spinner fa-spin"></i> : <i className="fas fa-clone"></i>}
                   </button>
                   <button 
-                    onClick={startExam}
-                    disabled={!activeModule}
+                    onClick={openExamSetup}
+                    disabled={!structure?.modules.length}
                     className="bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-1.5 md:px-4 rounded-lg text-sm font-medium transition shadow-sm whitespace-nowrap"
                   >
                       <span className="hidden md:inline">Simulate Exam</span>
@@ -347,14 +1359,18 @@ const App: React.FC = () => {
           </header>
 
           {/* Content Body */}
-          <div className="flex-1 overflow-y-auto p-4 md:p-8 relative" onMouseUp={handleExplainSelection}>
+          <div
+            className="flex-1 overflow-y-auto p-4 md:p-8 relative"
+            onMouseUp={handleLessonMouseUp}
+            onScroll={() => textSelection && setTextSelection(null)}
+          >
               {!activeModule ? (
                   <div className="flex flex-col items-center justify-center h-full text-slate-400 p-4 text-center">
                       <i className="fas fa-layer-group text-5xl mb-4 text-slate-200"></i>
                       <p className="text-lg font-medium text-slate-600">Select a module from the sidebar to begin learning.</p>
                       <p className="text-sm mt-2 md:hidden text-slate-500">(Tap the menu icon top-left)</p>
                   </div>
-              ) : loadingContent ? (
+              ) : loadingContent && !lessonContent ? (
                   <div className="space-y-4 animate-pulse">
                       <div className="h-8 bg-slate-200 rounded w-1/3"></div>
                       <div className="h-4 bg-slate-200 rounded w-full"></div>
@@ -363,7 +1379,7 @@ const App: React.FC = () => {
                       <div className="h-64 bg-slate-100 rounded w-full mt-8"></div>
                   </div>
               ) : (
-                  <div className="markdown-body max-w-4xl mx-auto pb-20">
+                  <div ref={lessonRef} className="markdown-body max-w-4xl mx-auto pb-20">
                       <div className="md:hidden mb-4 p-2 bg-slate-100 rounded text-center">
                            <p className="text-xs font-bold uppercase text-slate-500 mb-2">Content Depth</p>
                            <div className="flex justify-center gap-2">
@@ -382,10 +1398,99 @@ const App: React.FC = () => {
                             ))}
                            </div>
                       </div>
-                      <ReactMarkdown>{lessonContent}</ReactMarkdown>
+                      <div className="flex justify-end mb-2">
+                          {loadingContent ? (
+                              <button
+                                onClick={stopLesson}
+                                className="text-xs text-red-500 hover:text-red-700 transition"
+                                title="Stop generating and keep what has been written so far"
+                              >
+                                  <i className="fas fa-stop-circle mr-1"></i> Stop
+                              </button>
+                          ) : (
+                              <button
+                                onClick={regenerateLesson}
+                                className="text-xs text-slate-400 hover:text-blue-600 transition"
+                                title="Discard this saved lesson and generate a new one"
+                              >
+                                  <i className="fas fa-sync-alt mr-1"></i> Regenerate
+                              </button>
+                          )}
+                      </div>
+                      <ConceptsCovered
+                        concepts={(progressGraph?.nodes || []).filter(n => n.moduleId === activeModule.id)}
+                        onOpenGraph={() => { setGraphModuleFilter(activeModule.id); setShowGraph(true); }}
+                      />
+                      {showAudioPlayer && audioMode === 'dialogue' && dialogueLines ? (
+                          speechScript.blocks.map((block, i) => (
+                              <div
+                                key={i}
+                                data-speech-block={i}
+                                className={`rounded transition-colors ${speakingBlock === i ? 'bg-yellow-50 ring-4 ring-yellow-50' : ''}`}
+                              >
+                                  <ReactMarkdown>{block}</ReactMarkdown>
+                              </div>
+                          ))
+                      ) : (
+                          lessonBlocks.map((block, i) => (
+                              <React.Fragment key={i}>
+                                  <div
+                                    data-speech-block={i}
+                                    className={`rounded transition-colors ${showAudioPlayer && speakingBlock === i ? 'bg-yellow-50 ring-4 ring-yellow-50' : ''}`}
+                                  >
+                                      <ReactMarkdown>{block}</ReactMarkdown>
+                                  </div>
+                                  {(annotationsByBlock[i] || []).map(a => (
+                                      <LessonAnnotationNote key={a.id} annotation={a} onDelete={deleteAnnotation} />
+                                  ))}
+                                  {pendingAnnotationBlock === i && (
+                                      <p className="my-3 text-sm text-amber-700"><i className="fas fa-spinner fa-spin mr-2"></i>Explaining the selected passage...</p>
+                                  )}
+                              </React.Fragment>
+                          ))
+                      )}
                   </div>
               )}
           </div>
+
+          {textSelection && (
+              <SelectionToolbar
+                selection={textSelection}
+                onExplain={explainSelection}
+                onAddFlashcard={() => { addPassageToFlashcards(textSelection.text); clearTextSelection(); }}
+                onAskSidekick={askSidekickAboutSelection}
+              />
+          )}
+
+          {showAudioPlayer && courseId && (
+              loadingDialogue ? (
+                  <div className="border-t border-slate-200 bg-white px-4 py-3 shrink-0">
+                      <div className="max-w-4xl mx-auto flex items-center gap-3 text-sm text-slate-500">
+                          <i className="fas fa-spinner fa-spin text-blue-500"></i> Writing the tutor–student dialogue...
+                      </div>
+                  </div>
+              ) : (
+                  // Remounting on a mode or voice change restarts playback with the new audio
+                  <AudioTutorPlayer
+                    key={`${audioMode}:${JSON.stringify(voicePreferences)}`}
+                    script={speechScript}
+                    synthesize={(text, signal) => getOrSynthesizeSpeech(courseId, text, audioMode === 'dialogue'
+                        ? { speakers: Object.entries(voicePreferences.dialogue).map(([speaker, voice]) => ({ speaker, voice })), signal }
+                        : { voice: voicePreferences.voice, signal })}
+                    getAudioContext={getAudioContext}
+                    onActiveBlockChange={setSpeakingBlock}
+                    onError={(err, retry) => showError(err, "The audio lesson could not be generated.", retry)}
+                    onClose={() => setShowAudioPlayer(false)}
+                  >
+                      <VoiceSettings
+                        mode={audioMode}
+                        onModeChange={selectAudioMode}
+                        preferences={voicePreferences}
+                        onPreferencesChange={updateVoicePreferences}
+                      />
+                  </AudioTutorPlayer>
+              )
+          )}
       </div>
 
       {/* Sidekick Chat (Floating or Panel) */}
@@ -400,6 +1505,18 @@ const App: React.FC = () => {
               </button>
           </div>
           
+          <ChatThreadBar
+            threads={chatThreads}
+            activeThread={activeThread}
+            activeModule={activeModule}
+            modules={structure?.modules || []}
+            onSelect={thread => setActiveThreadId(thread.id)}
+            onNew={startChatThread}
+            onRename={(thread, title) => updateThread(thread.id, t => ({ ...t, title }))}
+            onDelete={deleteThread}
+            onExport={exportThread}
+          />
+
           <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50">
               {chatHistory.length === 0 && (
                   <div className="text-center text-slate-400 text-sm mt-10">
@@ -412,7 +1529,34 @@ const App: React.FC = () => {
                       <div className={`max-w-[85%] rounded-lg p-3 text-sm ${
                           msg.role === 'user' ? 'bg-blue-600 text-white' : 'bg-white border border-slate-200 text-slate-700'
                       }`}>
+                          {msg.inputMode === 'voice' && (
+                              <i className={`fas ${msg.role === 'user' ? 'fa-microphone' : 'fa-volume-up'} text-xs opacity-60 mr-1`} title="Voice"></i>
+                          )}
                           <ReactMarkdown>{msg.content}</ReactMarkdown>
+                          {msg.quiz && activeThread && (
+                              <ChatQuizCard
+                                quiz={msg.quiz}
+                                onSubmit={answers => submitChatQuiz(activeThread.id, msg.id, msg.quiz!, answers)}
+                              />
+                          )}
+                          {msg.sources && msg.sources.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-2 pt-2 border-t border-slate-100">
+                                  {msg.sources.map(source => {
+                                      const module = structure?.modules.find(m => m.id === source.moduleId);
+                                      return (
+                                          <button
+                                              key={source.label}
+                                              onClick={() => module && handleModuleSelect(module)}
+                                              disabled={!module}
+                                              className="text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 hover:bg-blue-50 hover:text-blue-700 disabled:hover:bg-slate-100 disabled:hover:text-slate-600 disabled:cursor-default"
+                                              title={module ? `Open ${module.title}` : source.label}
+                                          >
+                                              <i className="fas fa-book-open mr-1 opacity-60"></i>{source.label}
+                                          </button>
+                                      );
+                                  })}
+                              </div>
+                          )}
                       </div>
                   </div>
               ))}
@@ -431,6 +1575,11 @@ const App: React.FC = () => {
           </div>
 
           <div className="p-4 bg-white border-t border-slate-200 shrink-0">
+              {speakingReply && (
+                  <button onClick={stopVoiceReply} className="mb-2 text-xs text-blue-600 hover:text-blue-800">
+                      <i className="fas fa-volume-mute mr-1"></i> Stop speaking
+                  </button>
+              )}
               {chatImage && (
                   <div className="mb-2 relative inline-block">
                       <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">Image attached</span>
@@ -442,6 +1591,20 @@ const App: React.FC = () => {
                        <i className="fas fa-image"></i>
                        <input type="file" accept="image/*" className="hidden" onChange={handleImageUpload} />
                    </label>
+                  <button
+                    onClick={() => startChatQuiz()}
+                    disabled={isChatting}
+                    className="text-slate-400 hover:text-blue-600 p-2 disabled:opacity-50"
+                    title="Quiz me"
+                  >
+                      <i className="fas fa-question-circle"></i>
+                  </button>
+                  <PushToTalkButton
+                    disabled={isChatting}
+                    getAudioContext={getAudioContext}
+                    onRecorded={handleVoiceMessage}
+                    onError={(err) => showError(err, "Could not record from the microphone. Check that this page may use it.")}
+                  />
                   <input 
                     type="text" 
                     value={chatInput}
@@ -476,21 +1639,118 @@ const App: React.FC = () => {
         isOpen={showExam} 
         onClose={() => setShowExam(false)} 
         questions={examQuestions} 
+        timeLimitMinutes={examConfig?.timeLimitMinutes}
+        onSubmit={handleExamSubmit}
+        onReviewMistakes={handleReviewMistakes}
+        onLog={(type, details) => courseId && logEvent(courseId, type, details)}
+        onError={err => showError(err, "Your exam could not be graded. Your answers are still there; submit again.")}
+      />
+
+      <RemediationModal
+        isOpen={showRemediation}
+        onClose={() => setShowRemediation(false)}
+        weakSpots={weakSpots}
+        modules={structure?.modules || []}
+        lesson={remediationLesson}
+        loadingLesson={loadingRemediation}
+        loadingFollowUp={loadingExam}
+        onStartFollowUp={startFollowUpExam}
+      />
+
+      <ExamSetup
+        isOpen={showExamSetup}
+        onClose={() => setShowExamSetup(false)}
+        modules={structure?.modules || []}
+        activeModule={activeModule}
+        attempts={examAttempts}
+        loading={loadingExam}
+        onStart={startExam}
+      />
+
+      <FlashcardReview
+        isOpen={showFlashcards}
+        onClose={() => setShowFlashcards(false)}
+        cards={dueFlashcards}
+        moduleTitles={Object.fromEntries((structure?.modules || []).map(m => [m.id, m.title]))}
+        onReview={handleFlashcardReview}
       />
       
-      {showGraph && graphData && (
+      {showGraph && progressGraph && (
            <div className="fixed inset-0 bg-black bg-opacity-70 z-50 flex items-center justify-center p-4">
                 <div className="bg-white rounded-xl w-full max-w-4xl p-4 relative">
                     <button onClick={() => setShowGraph(false)} className="absolute top-4 right-4 text-slate-500 hover:text-slate-800">
                         <i className="fas fa-times text-xl"></i>
                     </button>
                     <h2 className="text-xl font-bold mb-4">Course Knowledge Graph</h2>
-                    <KnowledgeGraph data={graphData} onNodeClick={(id) => console.log(id)} />
-                    <p className="text-sm text-slate-500 mt-4 text-center">Nodes represent concepts. Links represent dependencies.</p>
+                    <KnowledgeGraph
+                      data={progressGraph}
+                      onNodeClick={handleConceptClick}
+                      modules={structure?.modules}
+                      moduleFilter={graphModuleFilter}
+                      onModuleFilterChange={setGraphModuleFilter}
+                    />
+                    <p className="text-sm text-slate-500 mt-4 text-center">
+                        Nodes represent concepts. Links represent dependencies. Click a concept to open its lesson.
+                    </p>
+                    <div className="flex justify-center gap-4 mt-2 text-xs text-slate-500">
+                        <span><i className="fas fa-circle text-emerald-500 mr-1"></i>Completed</span>
+                        <span><i className="fas fa-circle text-blue-500 mr-1"></i>Available</span>
+                        <span><i className="fas fa-circle text-slate-500 mr-1"></i>Locked</span>
+                    </div>
                 </div>
            </div>
       )}
 
+      <StudyPackDialog
+        isOpen={showStudyPack}
+        onClose={() => setShowStudyPack(false)}
+        defaultDepth={contentDepth}
+        hasGraph={!!progressGraph?.nodes.length}
+        onExport={exportStudyPack}
+      />
+
+      {structure && (
+          <OutlineEditor
+            isOpen={showOutlineEditor}
+            onClose={() => setShowOutlineEditor(false)}
+            structure={structure}
+            onSave={saveOutline}
+          />
+      )}
+
+      {structure && (
+          <AnalyticsDashboard
+            isOpen={showAnalytics}
+            onClose={() => setShowAnalytics(false)}
+            structure={structure}
+            progress={progress}
+            events={learningEvents}
+            attempts={analyticsAttempts}
+            onModuleSelect={(module) => { setShowAnalytics(false); handleModuleSelect(module); }}
+            onExportCsv={exportAnalyticsCsv}
+          />
+      )}
+
+      {structure && (
+          <StudyPlanner
+            isOpen={showStudyPlanner}
+            onClose={() => setShowStudyPlanner(false)}
+            structure={structure}
+            progress={progress}
+            preferences={studyPreferences}
+            onPreferencesChange={updateStudyPreferences}
+            onAssessmentsChange={updateAssessments}
+            onExportCalendar={exportStudyCalendar}
+          />
+      )}
+
+      {studyPackExport && (
+          <ExportProgress {...studyPackExport} onCancel={() => studyPackRef.current?.abort()} />
+      )}
+      {audioExport && (
+          <ExportProgress {...audioExport} onCancel={() => audioExportRef.current?.abort()} />
+      )}
+      <Toasts toasts={toasts} onDismiss={dismissToast} />
     </div>
   );
 };
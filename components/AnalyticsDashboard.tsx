@@ -0,0 +1,163 @@
+import React, { useMemo } from 'react';
+import { CourseModule, CourseStructure, ExamAttempt, LearningEvent, ModuleProgress } from '../types';
+import { moduleMastery, studyStreaks, timeByDay, weakestObjectives } from '../utils/analytics';
+import { addDays, formatIsoDate, toIsoDate } from '../utils/dates';
+import { formatMinutes } from '../utils/studyPlan';
+import ScoreHistoryChart from './ScoreHistoryChart';
+import TimeOnTaskChart from './TimeOnTaskChart';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  structure: CourseStructure;
+  progress: ModuleProgress[];
+  events: LearningEvent[];
+  attempts: ExamAttempt[];
+  onModuleSelect: (module: CourseModule) => void;
+  onExportCsv: () => void;
+}
+
+const HEATMAP_WEEKS = 8;
+
+const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+// What the student has done in this course: mastery per module, exam scores, streaks, weak spots and study time
+const AnalyticsDashboard: React.FC<Props> = ({ isOpen, onClose, structure, progress, events, attempts, onModuleSelect, onExportCsv }) => {
+  const mastery = useMemo(() => moduleMastery(structure.modules, progress, events), [structure, progress, events]);
+  const streaks = useMemo(() => studyStreaks(events), [events]);
+  const dailyTime = useMemo(() => timeByDay(events), [events]);
+  const weakest = useMemo(() => weakestObjectives(attempts), [attempts]);
+
+  if (!isOpen) return null;
+
+  const today = toIsoDate(new Date());
+  const totalSeconds = mastery.reduce((sum, m) => sum + m.seconds, 0);
+  const questionsAsked = events.filter(e => e.type === 'chat_question').length;
+  // Heatmap columns are weeks ending with the current one, rows Monday to Sunday
+  const heatmapStart = addDays(today, -((new Date().getDay() + 6) % 7) - (HEATMAP_WEEKS - 1) * 7);
+
+  const stats = [
+    { label: 'Day streak', value: String(streaks.current), hint: `Longest: ${streaks.longest}` },
+    { label: 'Time on lessons', value: formatMinutes(Math.round(totalSeconds / 60)), hint: `${streaks.activeDays.size} active days` },
+    { label: 'Exams taken', value: String(attempts.length), hint: attempts.length ? `Best: ${percent(Math.max(...attempts.map(a => a.total ? a.score / a.total : 0)))}` : '' },
+    { label: 'Questions asked', value: String(questionsAsked), hint: 'to the Sidekick' }
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-slate-50 rounded-t-xl shrink-0">
+          <h2 className="text-xl font-bold text-slate-800">Learning Analytics</h2>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onExportCsv}
+              disabled={!events.length}
+              className="text-sm text-slate-500 hover:text-blue-600 disabled:opacity-40"
+              title="Every recorded event as a spreadsheet"
+            >
+              <i className="fas fa-file-csv mr-1"></i>Export CSV
+            </button>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto text-sm">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {stats.map(s => (
+              <div key={s.label} className="bg-slate-50 rounded-lg p-3">
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">{s.label}</p>
+                <p className="text-2xl font-bold text-slate-800">{s.value}</p>
+                <p className="text-xs text-slate-400">{s.hint}</p>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <p className="font-semibold text-slate-700 mb-2">Study days</p>
+            <div className="grid grid-rows-7 grid-flow-col gap-1 w-max">
+              {Array.from({ length: HEATMAP_WEEKS * 7 }, (_, i) => addDays(heatmapStart, i)).map(date => (
+                <div
+                  key={date}
+                  className={`w-3 h-3 rounded-sm ${
+                    date > today ? 'bg-transparent' : streaks.activeDays.has(date) ? 'bg-emerald-500' : 'bg-slate-100'
+                  }`}
+                  title={date > today ? '' : formatIsoDate(date)}
+                ></div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="font-semibold text-slate-700 mb-2">Mastery by module</p>
+            <div className="space-y-2">
+              {mastery.map(m => (
+                <button
+                  key={m.module.id}
+                  onClick={() => onModuleSelect(m.module)}
+                  className="w-full text-left hover:bg-slate-50 rounded-lg p-2 transition"
+                  title="Open this module"
+                >
+                  <div className="flex justify-between text-slate-700">
+                    <span className="truncate">{m.module.title}</span>
+                    <span className="font-semibold shrink-0 ml-2">{percent(m.mastery)}</span>
+                  </div>
+                  <div className="h-2 bg-slate-100 rounded-full mt-1 overflow-hidden">
+                    <div className="h-full bg-blue-500 rounded-full" style={{ width: percent(m.mastery) }}></div>
+                  </div>
+                  <p className="text-xs text-slate-400 mt-1">
+                    {[
+                      m.bestExamScore !== undefined ? `Best exam ${percent(m.bestExamScore)}` : 'No exam yet',
+                      m.quizAccuracy !== undefined ? `Quizzes ${percent(m.quizAccuracy)}` : null,
+                      m.lessonViewed ? null : 'Lesson not read',
+                      m.seconds ? formatMinutes(Math.round(m.seconds / 60)) : null,
+                      m.questionsAsked ? `${m.questionsAsked} question${m.questionsAsked === 1 ? '' : 's'} asked` : null
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <div>
+              <p className="font-semibold text-slate-700 mb-2">Exam scores</p>
+              <ScoreHistoryChart attempts={attempts} />
+            </div>
+            <div>
+              <p className="font-semibold text-slate-700 mb-2">Time on lessons, last 14 days</p>
+              <TimeOnTaskChart days={dailyTime} />
+            </div>
+          </div>
+
+          <div>
+            <p className="font-semibold text-slate-700 mb-2">Weakest learning objectives</p>
+            {!weakest.length ? (
+              <p className="text-slate-400 italic">Take an exam to see which objectives need work.</p>
+            ) : (
+              <div className="space-y-1">
+                {weakest.map(o => (
+                  <div key={o.objective} className="flex justify-between gap-4">
+                    <span className="text-slate-700">
+                      {o.objective}
+                      <span className="text-xs text-slate-400 ml-2">
+                        {structure.modules.find(m => m.id === o.moduleId)?.title}
+                      </span>
+                    </span>
+                    <span className={`font-semibold shrink-0 ${o.correct / o.total < 0.5 ? 'text-red-500' : 'text-amber-600'}`}>
+                      {percent(o.correct / o.total)}
+                      <span className="text-xs text-slate-400 font-normal ml-1">of {o.total}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
@@ -0,0 +1,222 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SpeechScript } from '../utils/speechText';
+import { decodeAudioData, playAudioBuffer } from '../utils/audioUtils';
+
+interface Props {
+  script: SpeechScript;
+  // Returns base64 PCM for one chunk of text (cached, see services/audioCache.ts)
+  synthesize: (text: string, signal: AbortSignal) => Promise<string>;
+  getAudioContext: () => AudioContext;
+  // The Markdown block being read, for highlighting; null when nothing is playing
+  onActiveBlockChange: (blockIndex: number | null) => void;
+  onError: (err: unknown, retry: () => void) => void;
+  onClose: () => void;
+  // Extra settings shown under the transport controls
+  children?: React.ReactNode;
+}
+
+type PlayerStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+const SPEEDS = [0.75, 1, 1.25, 1.5, 2];
+
+const AudioTutorPlayer: React.FC<Props> = ({ script, synthesize, getAudioContext, onActiveBlockChange, onError, onClose, children }) => {
+  const [status, setStatus] = useState<PlayerStatus>('idle');
+  const [chunkIndex, setChunkIndex] = useState(0);
+  const [rate, setRate] = useState(1);
+
+  const buffersRef = useRef(new Map<number, Promise<AudioBuffer>>());
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const abortRef = useRef(new AbortController());
+  // Bumped on every play, pause and stop so callbacks from an earlier playback are ignored
+  const playIdRef = useRef(0);
+  // Where playback (re)started: chunk, seconds into it, and the AudioContext time it started at (-1 while loading)
+  const positionRef = useRef({ chunk: 0, offset: 0, startedAt: -1 });
+  const rateRef = useRef(1);
+
+  const total = script.chunks.length;
+
+  // Start reading as soon as the player opens; stop everything and cancel synthesis when it closes
+  useEffect(() => {
+    playFrom(0);
+    return () => {
+      playIdRef.current++;
+      abortRef.current.abort();
+      stopSource();
+      onActiveBlockChange(null);
+    };
+  }, []);
+
+  // Chunks are synthesized one at a time: the next one is requested once the current one is ready
+  const getBuffer = (i: number): Promise<AudioBuffer> => {
+    let buffer = buffersRef.current.get(i);
+    if (!buffer) {
+      buffer = synthesize(script.chunks[i].text, abortRef.current.signal)
+        .then(audio => decodeAudioData(audio, getAudioContext()));
+      // A failed chunk is synthesized again on retry
+      buffer.catch(() => buffersRef.current.delete(i));
+      buffersRef.current.set(i, buffer);
+    }
+    return buffer;
+  };
+
+  const stopSource = () => {
+    const source = sourceRef.current;
+    sourceRef.current = null;
+    if (source) {
+      source.onended = null;
+      source.stop();
+    }
+  };
+
+  const elapsed = () => {
+    const { offset, startedAt } = positionRef.current;
+    return startedAt < 0 ? offset : offset + (getAudioContext().currentTime - startedAt) * rateRef.current;
+  };
+
+  const playFrom = async (i: number, offset: number = 0) => {
+    stopSource();
+    const playId = ++playIdRef.current;
+
+    if (i >= total) {
+      stop();
+      return;
+    }
+
+    setChunkIndex(i);
+    setStatus('loading');
+    onActiveBlockChange(script.chunks[i].blockIndex);
+    positionRef.current = { chunk: i, offset, startedAt: -1 };
+
+    try {
+      const audioContext = getAudioContext();
+      if (audioContext.state === 'suspended') await audioContext.resume();
+      const buffer = await getBuffer(i);
+      if (playId !== playIdRef.current) return;
+      if (i + 1 < total) getBuffer(i + 1).catch(() => {});
+
+      const source = playAudioBuffer(buffer, audioContext, offset, rateRef.current);
+      source.onended = () => {
+        if (playId === playIdRef.current) playFrom(i + 1);
+      };
+      sourceRef.current = source;
+      positionRef.current = { chunk: i, offset, startedAt: audioContext.currentTime };
+      setStatus('playing');
+    } catch (err) {
+      if (playId !== playIdRef.current) return;
+      setStatus('paused');
+      onError(err, () => playFrom(i, offset));
+    }
+  };
+
+  const pause = () => {
+    positionRef.current = { ...positionRef.current, offset: elapsed(), startedAt: -1 };
+    playIdRef.current++;
+    stopSource();
+    setStatus('paused');
+  };
+
+  const resume = () => playFrom(positionRef.current.chunk, positionRef.current.offset);
+
+  const stop = () => {
+    playIdRef.current++;
+    stopSource();
+    positionRef.current = { chunk: 0, offset: 0, startedAt: -1 };
+    setChunkIndex(0);
+    setStatus('idle');
+    onActiveBlockChange(null);
+  };
+
+  // Takes effect immediately; the position bookkeeping restarts so elapsed() stays correct
+  const changeRate = (next: number) => {
+    if (sourceRef.current) {
+      positionRef.current = { ...positionRef.current, offset: elapsed(), startedAt: getAudioContext().currentTime };
+      sourceRef.current.playbackRate.value = next;
+    }
+    rateRef.current = next;
+    setRate(next);
+  };
+
+  const currentSection = script.chunks[chunkIndex]?.sectionIndex ?? 0;
+  const seekSection = (sectionIndex: number) => {
+    const section = script.sections[sectionIndex];
+    if (section) playFrom(section.firstChunk);
+  };
+
+  return (
+    <div className="border-t border-slate-200 bg-white px-4 py-3 shrink-0">
+      <div className="max-w-4xl mx-auto flex flex-wrap items-center gap-3 text-sm">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => seekSection(currentSection - 1)}
+            disabled={currentSection === 0}
+            className="p-2 text-slate-500 hover:text-blue-600 disabled:opacity-30"
+            title="Previous section"
+          >
+            <i className="fas fa-step-backward"></i>
+          </button>
+          <button
+            onClick={status === 'playing' ? pause : status === 'paused' ? resume : () => playFrom(0)}
+            disabled={status === 'loading' || !total}
+            className="w-9 h-9 rounded-full bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-60 flex items-center justify-center"
+            title={status === 'playing' ? 'Pause' : 'Play'}
+          >
+            {status === 'loading'
+              ? <i className="fas fa-spinner fa-spin"></i>
+              : <i className={`fas ${status === 'playing' ? 'fa-pause' : 'fa-play'}`}></i>}
+          </button>
+          <button
+            onClick={stop}
+            disabled={status === 'idle'}
+            className="p-2 text-slate-500 hover:text-red-600 disabled:opacity-30"
+            title="Stop"
+          >
+            <i className="fas fa-stop"></i>
+          </button>
+          <button
+            onClick={() => seekSection(currentSection + 1)}
+            disabled={currentSection >= script.sections.length - 1}
+            className="p-2 text-slate-500 hover:text-blue-600 disabled:opacity-30"
+            title="Next section"
+          >
+            <i className="fas fa-step-forward"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 min-w-[10rem]">
+          <select
+            value={currentSection}
+            onChange={(e) => seekSection(Number(e.target.value))}
+            className="w-full border border-slate-200 rounded px-2 py-1 text-slate-700 bg-white truncate"
+            title="Jump to section"
+          >
+            {script.sections.map((s, idx) => (
+              <option key={idx} value={idx}>{s.title}</option>
+            ))}
+          </select>
+          <div className="h-1 bg-slate-100 rounded mt-1.5 overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all"
+              style={{ width: `${total ? ((chunkIndex + (status === 'idle' ? 0 : 1)) / total) * 100 : 0}%` }}
+            ></div>
+          </div>
+        </div>
+
+        <select
+          value={rate}
+          onChange={(e) => changeRate(Number(e.target.value))}
+          className="border border-slate-200 rounded px-2 py-1 text-slate-700 bg-white"
+          title="Playback speed"
+        >
+          {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700" title="Close player">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+      {children && <div className="max-w-4xl mx-auto mt-2">{children}</div>}
+    </div>
+  );
+};
+
+export default AudioTutorPlayer;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { ChatQuiz, ExamAnswer, QuestionResult } from '../types';
+import { isAnswered, totalScore } from '../utils/examGrading';
+import QuestionInput, { ExpectedAnswer } from './QuestionInput';
+
+interface Props {
+  quiz: ChatQuiz;
+  onSubmit: (answers: Record<number, ExamAnswer>) => Promise<QuestionResult[]>;
+}
+
+// A "Quiz me" round inside the Sidekick chat. A graded quiz is shown as saved, with its answers and feedback.
+const ChatQuizCard: React.FC<Props> = ({ quiz, onSubmit }) => {
+  const [answers, setAnswers] = useState<Record<number, ExamAnswer>>(quiz.answers || {});
+  const [grading, setGrading] = useState(false);
+
+  const results = quiz.results;
+  const submitted = grading || !!results;
+  const allAnswered = quiz.questions.every(q => isAnswered(q, answers[q.id]));
+
+  const handleSubmit = async () => {
+    setGrading(true);
+    try {
+      await onSubmit(answers);
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 mt-2">
+      {quiz.questions.map((q, idx) => {
+        const result = results?.find(r => r.questionId === q.id);
+        return (
+          <div key={q.id} className="space-y-2">
+            <p className="font-semibold text-slate-800">
+              {idx + 1}. {q.question}
+              {result && (
+                <i className={`fas ${result.correct ? 'fa-check-circle text-green-600' : 'fa-times-circle text-red-500'} ml-2`}></i>
+              )}
+            </p>
+            <div className="space-y-1.5">
+              <QuestionInput
+                question={q}
+                answer={answers[q.id]}
+                onChange={(answer) => setAnswers(prev => ({ ...prev, [q.id]: answer }))}
+                disabled={submitted}
+                reveal={!!results}
+              />
+            </div>
+            {results && (
+              <div className="bg-slate-50 p-2 rounded text-xs text-slate-600 space-y-1">
+                {result?.feedback && <p><span className="font-bold">Feedback:</span> {result.feedback}</p>}
+                <ExpectedAnswer question={q} />
+                <p><span className="font-bold">Explanation:</span> {q.explanation}</p>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex justify-between items-center pt-2 border-t border-slate-100">
+        {results ? (
+          <span className="font-bold text-slate-700">Score: {totalScore(results)} / {quiz.questions.length}</span>
+        ) : grading ? (
+          <span className="text-xs text-slate-500"><i className="fas fa-spinner fa-spin mr-1"></i>Checking your answers...</span>
+        ) : (
+          <span className="text-xs text-slate-400">Answer every question to check them</span>
+        )}
+        {!submitted && (
+          <button
+            onClick={handleSubmit}
+            disabled={!allAnswered}
+            className="bg-blue-600 text-white px-3 py-1.5 rounded-lg text-xs font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Check answers
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChatQuizCard;
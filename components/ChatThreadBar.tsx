@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { ChatThread, CourseModule } from '../types';
+
+interface Props {
+  threads: ChatThread[];
+  activeThread: ChatThread | null;
+  activeModule: CourseModule | null;
+  modules: CourseModule[];
+  onSelect: (thread: ChatThread) => void;
+  onNew: (module: CourseModule | null) => void;
+  onRename: (thread: ChatThread, title: string) => void;
+  onDelete: (thread: ChatThread) => void;
+  onExport: (thread: ChatThread) => void;
+}
+
+// Thread picker above the Sidekick conversation: threads are grouped by module, free-form threads last
+const ChatThreadBar: React.FC<Props> = ({ threads, activeThread, activeModule, modules, onSelect, onNew, onRename, onDelete, onExport }) => {
+  const [showList, setShowList] = useState(false);
+
+  const groups = [
+    ...modules.map(m => ({ key: m.id, label: m.title, threads: threads.filter(t => t.moduleId === m.id) })),
+    { key: 'general', label: 'Free-form', threads: threads.filter(t => !modules.some(m => m.id === t.moduleId)) }
+  ].filter(g => g.threads.length > 0);
+
+  const rename = (thread: ChatThread) => {
+    const title = prompt('Rename this conversation', thread.title)?.trim();
+    if (title) onRename(thread, title);
+  };
+
+  const startNew = (module: CourseModule | null) => {
+    onNew(module);
+    setShowList(false);
+  };
+
+  return (
+    <div className="border-b border-slate-200 bg-white shrink-0">
+      <div className="flex items-center gap-1 px-3 py-2">
+        <button
+          onClick={() => setShowList(!showList)}
+          className="flex-1 min-w-0 flex items-center gap-2 text-left text-sm text-slate-700 hover:text-blue-700"
+          title="All conversations"
+        >
+          <i className={`fas fa-chevron-${showList ? 'up' : 'down'} text-xs text-slate-400`}></i>
+          <span className="truncate font-medium">{activeThread?.title || (activeModule ? activeModule.title : 'New conversation')}</span>
+          {threads.length > 0 && <span className="text-xs text-slate-400 shrink-0">{threads.length}</span>}
+        </button>
+        <button onClick={() => startNew(activeModule)} className="p-1.5 text-slate-400 hover:text-blue-600" title="New conversation">
+          <i className="fas fa-plus"></i>
+        </button>
+        {activeThread && (
+          <>
+            <button onClick={() => rename(activeThread)} className="p-1.5 text-slate-400 hover:text-blue-600" title="Rename">
+              <i className="fas fa-pen"></i>
+            </button>
+            <button onClick={() => onExport(activeThread)} className="p-1.5 text-slate-400 hover:text-blue-600" title="Export as Markdown">
+              <i className="fas fa-file-export"></i>
+            </button>
+            <button
+              onClick={() => confirm(`Delete "${activeThread.title}"?`) && onDelete(activeThread)}
+              className="p-1.5 text-slate-400 hover:text-red-500"
+              title="Delete conversation"
+            >
+              <i className="fas fa-trash-alt"></i>
+            </button>
+          </>
+        )}
+      </div>
+
+      {showList && (
+        <div className="max-h-64 overflow-y-auto border-t border-slate-100 px-2 py-2 space-y-2">
+          {groups.length === 0 && (
+            <p className="text-xs text-slate-400 text-center py-2">No conversations yet.</p>
+          )}
+          {groups.map(group => (
+            <div key={group.key}>
+              <p className="px-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">{group.label}</p>
+              {group.threads.map(thread => (
+                <button
+                  key={thread.id}
+                  onClick={() => { onSelect(thread); setShowList(false); }}
+                  className={`w-full text-left px-2 py-1.5 rounded text-sm flex justify-between gap-2 ${
+                    thread.id === activeThread?.id ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  <span className="truncate">{thread.title}</span>
+                  <span className="text-xs text-slate-400 shrink-0">{new Date(thread.updatedAt).toLocaleDateString()}</span>
+                </button>
+              ))}
+            </div>
+          ))}
+          <button
+            onClick={() => startNew(null)}
+            className="w-full text-left px-2 py-1.5 rounded text-xs text-slate-500 hover:bg-slate-50"
+          >
+            <i className="fas fa-plus mr-1"></i> New free-form conversation
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatThreadBar;
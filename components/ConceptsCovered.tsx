@@ -0,0 +1,42 @@
+import React from 'react';
+import { KnowledgeNode } from '../types';
+
+interface Props {
+  concepts: KnowledgeNode[];
+  onOpenGraph: () => void;
+}
+
+const STATUS_DOT: Record<KnowledgeNode['status'], string> = {
+  completed: 'bg-emerald-500',
+  available: 'bg-blue-500',
+  locked: 'bg-slate-400'
+};
+
+const ConceptsCovered: React.FC<Props> = ({ concepts, onOpenGraph }) => {
+  if (!concepts.length) return null;
+
+  return (
+    <div className="mb-6 p-3 bg-indigo-50 border border-indigo-100 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-xs font-bold uppercase text-indigo-400 tracking-wider">Concepts covered</p>
+        <button onClick={onOpenGraph} className="text-xs text-indigo-600 hover:text-indigo-800">
+          <i className="fas fa-project-diagram mr-1"></i> Show in graph
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {concepts.map(c => (
+          <span
+            key={c.id}
+            title={c.topic ? `Topic: ${c.topic}` : undefined}
+            className="inline-flex items-center gap-1.5 bg-white border border-indigo-100 rounded-full px-2.5 py-0.5 text-xs text-slate-700"
+          >
+            <span className={`w-2 h-2 rounded-full ${STATUS_DOT[c.status]}`}></span>
+            {c.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ConceptsCovered;
@@ -0,0 +1,104 @@
+import React, { useRef } from 'react';
+import { SavedCourse } from '../types';
+import { SUPPORTED_SYLLABUS_TYPES } from '../services/ingestion';
+
+interface Props {
+  courses: SavedCourse[];
+  onUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onOpen: (course: SavedCourse) => void;
+  onDelete: (courseId: string) => void;
+  onImport: (file: File) => void;
+  onExport: (course: SavedCourse) => void;
+}
+
+const CourseLibrary: React.FC<Props> = ({ courses, onUpload, onOpen, onDelete, onImport, onExport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-slate-50 p-4">
+      <div className="space-y-6 max-w-lg w-full">
+        <div className="text-center space-y-6 p-10 bg-white rounded-2xl shadow-xl">
+          <div className="w-20 h-20 bg-blue-600 rounded-full flex items-center justify-center mx-auto text-white text-4xl">
+            <i className="fas fa-book-open"></i>
+          </div>
+          <h1 className="text-3xl font-bold text-slate-800">Syllabus Engine</h1>
+          <p className="text-slate-500">Upload your course syllabus to generate an interactive AI tutor.</p>
+
+          <div
+            onClick={() => fileInputRef.current?.click()}
+            className="border-2 border-dashed border-blue-200 bg-blue-50 rounded-xl p-10 cursor-pointer hover:bg-blue-100 transition-colors"
+          >
+            <i className="fas fa-cloud-upload-alt text-4xl text-blue-400 mb-2"></i>
+            <p className="font-medium text-blue-700">Click to upload your syllabus</p>
+            <p className="text-xs text-blue-500 mt-1">PDF, Word, Markdown, HTML or text. Select several files to combine them into one course.</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={SUPPORTED_SYLLABUS_TYPES}
+              multiple
+              className="hidden"
+              onChange={onUpload}
+            />
+          </div>
+
+          <button
+            onClick={() => bundleInputRef.current?.click()}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            <i className="fas fa-file-import mr-1"></i> Open a course shared with you
+          </button>
+          <input
+            ref={bundleInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.[0]) onImport(e.target.files[0]);
+              e.target.value = "";
+            }}
+          />
+        </div>
+
+        {courses.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-xl p-6">
+            <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Your Courses</h2>
+            <div className="space-y-2">
+              {courses.map(course => (
+                <div key={course.id} className="flex items-center gap-2 group">
+                  <button
+                    onClick={() => onOpen(course)}
+                    className="flex-1 text-left px-3 py-2.5 rounded-lg hover:bg-slate-50 transition-colors min-w-0"
+                  >
+                    <p className="font-medium text-slate-700 truncate">{course.structure.title}</p>
+                    <p className="text-xs text-slate-400 truncate">
+                      {course.fileName} · {course.structure.modules.length} modules · Last opened {new Date(course.updatedAt).toLocaleDateString()}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => onExport(course)}
+                    className="p-2 text-slate-300 hover:text-blue-600 transition"
+                    title="Export to share"
+                  >
+                    <i className="fas fa-share-square"></i>
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm(`Delete "${course.structure.title}" and everything generated for it?`)) onDelete(course.id);
+                    }}
+                    className="p-2 text-slate-300 hover:text-red-500 transition"
+                    title="Delete course"
+                  >
+                    <i className="fas fa-trash-alt"></i>
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CourseLibrary;
@@ -1,106 +1,185 @@
-import React, { useState } from 'react';
-import { ExamQuestion } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { ExamAnswer, ExamQuestion, LearningEventDetails, LearningEventType, QuestionResult } from '../types';
+import { isAnswered, totalScore } from '../utils/examGrading';
+import QuestionInput, { ExpectedAnswer } from './QuestionInput';
 
 interface Props {
   isOpen: boolean;
   onClose: () => void;
   questions: ExamQuestion[];
+  timeLimitMinutes?: number | null;
+  onSubmit: (answers: Record<number, ExamAnswer>, durationSeconds: number) => Promise<QuestionResult[]>;
+  onReviewMistakes?: (results: QuestionResult[]) => void;
+  // Reports the exam being started and abandoned; completion is logged by whoever grades it
+  onLog?: (type: LearningEventType, details: LearningEventDetails) => void;
+  // Grading failed; the exam reopens for submission so no answers are lost
+  onError: (err: unknown) => void;
 }
 
-const ExamModal: React.FC<Props> = ({ isOpen, onClose, questions }) => {
-  const [answers, setAnswers] = useState<Record<number, number>>({});
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const ExamModal: React.FC<Props> = ({ isOpen, onClose, questions, timeLimitMinutes, onSubmit, onReviewMistakes, onLog, onError }) => {
+  const [answers, setAnswers] = useState<Record<number, ExamAnswer>>({});
   const [submitted, setSubmitted] = useState(false);
+  const [grading, setGrading] = useState(false);
+  const [results, setResults] = useState<QuestionResult[]>([]);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const startedAtRef = useRef(Date.now());
+  const timeUpRef = useRef(false);
+
+  // Every newly opened exam starts from a clean slate
+  useEffect(() => {
+    if (isOpen) {
+      setAnswers({});
+      setSubmitted(false);
+      setGrading(false);
+      setResults([]);
+      setSecondsLeft(timeLimitMinutes ? timeLimitMinutes * 60 : null);
+      startedAtRef.current = Date.now();
+      timeUpRef.current = false;
+      onLog?.('exam_started', { total: questions.length, moduleIds: Array.from(new Set(questions.map(q => q.moduleId).filter((id): id is string => !!id))) });
+    }
+  }, [isOpen, questions]);
+
+  // Timer mode: count down and hand in whatever has been answered when time runs out
+  useEffect(() => {
+    if (!isOpen || submitted || secondsLeft === null) return;
+    if (secondsLeft <= 0) {
+      // Only once: if grading fails, the student submits again themselves
+      if (!timeUpRef.current) {
+        timeUpRef.current = true;
+        handleSubmit();
+      }
+      return;
+    }
+    const timer = setTimeout(() => setSecondsLeft(secondsLeft - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [isOpen, submitted, secondsLeft]);
 
   if (!isOpen) return null;
 
-  const handleSelect = (qId: number, optionIdx: number) => {
+  const resultFor = (qId: number) => results.find(r => r.questionId === qId);
+
+  const setAnswer = (qId: number, answer: ExamAnswer) => {
     if (submitted) return;
-    setAnswers(prev => ({ ...prev, [qId]: optionIdx }));
+    setAnswers(prev => ({ ...prev, [qId]: answer }));
   };
 
-  const calculateScore = () => {
-    let score = 0;
-    (questions || []).forEach(q => {
-      if (answers[q.id] === q.correctAnswerIndex) score++;
-    });
-    return score;
+  const handleSubmit = async () => {
+    if (submitted) return;
+    setSubmitted(true);
+    setGrading(true);
+    try {
+      const durationSeconds = Math.round((Date.now() - startedAtRef.current) / 1000);
+      setResults(await onSubmit(answers, durationSeconds));
+    } catch (err) {
+      setSubmitted(false);
+      onError(err);
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!submitted) {
+      onLog?.('exam_abandoned', {
+        seconds: Math.round((Date.now() - startedAtRef.current) / 1000),
+        answered: questions.filter(q => isAnswered(q, answers[q.id])).length,
+        total: questions.length
+      });
+    }
+    onClose();
   };
 
+  const allAnswered = (questions || []).every(q => isAnswered(q, answers[q.id]));
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
       <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto flex flex-col">
         <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-slate-50 rounded-t-xl">
           <h2 className="text-xl font-bold text-slate-800">Midterm Simulator</h2>
-          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
-            <i className="fas fa-times"></i>
-          </button>
+          <div className="flex items-center gap-4">
+            {secondsLeft !== null && !submitted && (
+              <span className={`font-mono text-sm font-bold ${secondsLeft < 60 ? 'text-red-600' : 'text-slate-600'}`}>
+                <i className="fas fa-stopwatch mr-1"></i>{formatTime(Math.max(0, secondsLeft))}
+              </span>
+            )}
+            <button onClick={handleClose} className="text-gray-500 hover:text-gray-700">
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
         </div>
 
         <div className="p-6 space-y-8 flex-1 overflow-y-auto">
-          {questions?.map((q, idx) => (
-            <div key={q.id} className="space-y-3">
-              <p className="font-semibold text-lg text-slate-800">{idx + 1}. {q.question}</p>
-              <div className="space-y-2">
-                {q.options.map((opt, oIdx) => {
-                  let btnClass = "w-full text-left p-3 rounded-lg border transition-colors ";
-                  if (!submitted) {
-                    btnClass += answers[q.id] === oIdx 
-                      ? "border-blue-500 bg-blue-50 text-blue-700" 
-                      : "border-gray-200 hover:bg-gray-50";
-                  } else {
-                    if (oIdx === q.correctAnswerIndex) {
-                      btnClass += "border-green-500 bg-green-50 text-green-700";
-                    } else if (answers[q.id] === oIdx) {
-                      btnClass += "border-red-500 bg-red-50 text-red-700";
-                    } else {
-                      btnClass += "border-gray-200 opacity-50";
-                    }
-                  }
-
-                  return (
-                    <button
-                      key={oIdx}
-                      onClick={() => handleSelect(q.id, oIdx)}
-                      className={btnClass}
-                    >
-                      {opt}
-                    </button>
-                  );
-                })}
-              </div>
-              {submitted && (
-                <div className="bg-slate-50 p-3 rounded text-sm text-slate-600 mt-2">
-                  <span className="font-bold">Explanation:</span> {q.explanation}
+          {questions?.map((q, idx) => {
+            const result = resultFor(q.id);
+            return (
+              <div key={q.id} className="space-y-3">
+                <p className="font-semibold text-lg text-slate-800">
+                  {idx + 1}. {q.question}
+                  {result && (
+                    <i className={`fas ${result.correct ? 'fa-check-circle text-green-600' : 'fa-times-circle text-red-500'} ml-2`}></i>
+                  )}
+                </p>
+                <div className="space-y-2">
+                  <QuestionInput
+                    question={q}
+                    answer={answers[q.id]}
+                    onChange={(answer) => setAnswer(q.id, answer)}
+                    disabled={submitted}
+                    reveal={submitted && !grading}
+                  />
                 </div>
-              )}
-            </div>
-          ))}
+                {submitted && !grading && (
+                  <div className="bg-slate-50 p-3 rounded text-sm text-slate-600 mt-2 space-y-1">
+                    {result?.feedback && <p><span className="font-bold">Feedback:</span> {result.feedback}</p>}
+                    <ExpectedAnswer question={q} />
+                    <p><span className="font-bold">Explanation:</span> {q.explanation}</p>
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
 
         <div className="p-6 border-t border-gray-100 bg-slate-50 rounded-b-xl flex justify-between items-center">
-            {submitted ? (
+            {grading ? (
+                <div className="text-sm text-gray-500"><i className="fas fa-spinner fa-spin mr-2"></i>Grading...</div>
+            ) : submitted ? (
                  <div className="text-lg font-bold">
-                    Score: {calculateScore()} / {(questions || []).length}
+                    Score: {totalScore(results)} / {(questions || []).length}
                  </div>
             ) : (
                 <div className="text-sm text-gray-500">Answer all questions to submit</div>
             )}
-          
+
           {!submitted ? (
              <button
-                onClick={() => setSubmitted(true)}
-                disabled={Object.keys(answers).length !== (questions || []).length}
+                onClick={handleSubmit}
+                disabled={!allAnswered}
                 className="bg-blue-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
              >
                 Submit Exam
              </button>
           ) : (
-             <button
-                onClick={onClose}
-                className="bg-gray-800 text-white px-6 py-2 rounded-lg font-medium hover:bg-gray-900"
-             >
-                Close
-             </button>
+             <div className="flex gap-2">
+                {!grading && onReviewMistakes && results.some(r => !r.correct) && (
+                   <button
+                      onClick={() => onReviewMistakes(results)}
+                      className="bg-amber-500 text-white px-4 py-2 rounded-lg font-medium hover:bg-amber-600"
+                   >
+                      Review My Mistakes
+                   </button>
+                )}
+                <button
+                   onClick={handleClose}
+                   disabled={grading}
+                   className="bg-gray-800 text-white px-6 py-2 rounded-lg font-medium hover:bg-gray-900 disabled:opacity-50"
+                >
+                   Close
+                </button>
+             </div>
           )}
         </div>
       </div>
@@ -108,4 +187,4 @@ const ExamModal: React.FC<Props> = ({ isOpen, onClose, questions }) => {
   );
 };
 
-export default ExamModal;
\ No newline at end of file
+export default ExamModal;
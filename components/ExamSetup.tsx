@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { CourseModule, ExamAttempt, ExamConfig, ExamDifficulty, QuestionType } from '../types';
+import { PASSING_SCORE } from '../utils/progress';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  modules: CourseModule[];
+  activeModule: CourseModule | null;
+  attempts: ExamAttempt[]; // past attempts for the active module, oldest first
+  loading: boolean;
+  onStart: (config: ExamConfig) => void;
+}
+
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: 'Multiple choice',
+  multi: 'Multi-select',
+  true_false: 'True / false',
+  short_answer: 'Short answer',
+  numeric: 'Numeric'
+};
+
+const DIFFICULTIES: ExamDifficulty[] = ['easy', 'medium', 'hard'];
+
+const ExamSetup: React.FC<Props> = ({ isOpen, onClose, modules, activeModule, attempts, loading, onStart }) => {
+  const [questionCount, setQuestionCount] = useState(5);
+  const [difficulty, setDifficulty] = useState<ExamDifficulty>('medium');
+  const [moduleIds, setModuleIds] = useState<string[]>([]);
+  const [topics, setTopics] = useState<string[]>([]);
+  const [questionTypes, setQuestionTypes] = useState<QuestionType[]>(['single']);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState<number | null>(null);
+
+  // Default to the module being studied each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setModuleIds(activeModule ? [activeModule.id] : modules.map(m => m.id));
+      setTopics([]);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const toggle = <T,>(list: T[], item: T): T[] =>
+    list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+  const availableTopics = modules.filter(m => moduleIds.includes(m.id)).flatMap(m => m.topics);
+
+  const handleModuleToggle = (id: string) => {
+    const next = toggle(moduleIds, id);
+    setModuleIds(next);
+    // Drop topics that belong only to deselected modules
+    const stillAvailable = modules.filter(m => next.includes(m.id)).flatMap(m => m.topics);
+    setTopics(prev => prev.filter(t => stillAvailable.includes(t)));
+  };
+
+  const canStart = moduleIds.length > 0 && questionTypes.length > 0 && !loading;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto flex flex-col">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-slate-50 rounded-t-xl">
+          <h2 className="text-xl font-bold text-slate-800">Exam Setup</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 flex-1 overflow-y-auto text-sm">
+          {attempts.length > 0 && (
+            <div>
+              <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">
+                Your scores in {activeModule?.title}
+              </p>
+              <div className="flex items-end gap-1 h-20 bg-slate-50 rounded-lg p-2">
+                {attempts.slice(-12).map(a => {
+                  const pct = a.total ? Math.round((a.score / a.total) * 100) : 0;
+                  return (
+                    <div key={a.id} className="flex-1 flex flex-col items-center justify-end h-full" title={`${new Date(a.completedAt).toLocaleString()}: ${a.score}/${a.total}`}>
+                      <span className="text-[10px] text-slate-500">{pct}%</span>
+                      <div
+                        className={`w-full rounded-t ${pct >= PASSING_SCORE * 100 ? 'bg-emerald-400' : pct >= 40 ? 'bg-amber-400' : 'bg-red-400'}`}
+                        style={{ height: `${Math.max(pct, 4)}%` }}
+                      ></div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className="font-medium text-slate-700">Questions: {questionCount}</span>
+              <input
+                type="range"
+                min={3}
+                max={20}
+                value={questionCount}
+                onChange={(e) => setQuestionCount(Number(e.target.value))}
+                className="w-full mt-2"
+              />
+            </label>
+            <div>
+              <span className="font-medium text-slate-700">Difficulty</span>
+              <div className="flex bg-slate-100 rounded-lg p-1 mt-1">
+                {DIFFICULTIES.map(d => (
+                  <button
+                    key={d}
+                    onClick={() => setDifficulty(d)}
+                    className={`flex-1 px-3 py-1 rounded text-xs font-medium capitalize transition-all ${
+                      difficulty === d ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                    }`}
+                  >
+                    {d}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <span className="font-medium text-slate-700">Question types</span>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(t => (
+                <button
+                  key={t}
+                  onClick={() => setQuestionTypes(toggle(questionTypes, t))}
+                  className={`px-3 py-1 rounded-full border text-xs transition ${
+                    questionTypes.includes(t) ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 text-slate-500 hover:bg-slate-50'
+                  }`}
+                >
+                  {QUESTION_TYPE_LABELS[t]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <span className="font-medium text-slate-700">Modules</span>
+            <div className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+              {modules.map(m => (
+                <label key={m.id} className="flex items-center gap-2 text-slate-600">
+                  <input type="checkbox" checked={moduleIds.includes(m.id)} onChange={() => handleModuleToggle(m.id)} />
+                  <span className="truncate">{m.title}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {availableTopics.length > 0 && (
+            <div>
+              <span className="font-medium text-slate-700">Topics</span>
+              <span className="text-xs text-slate-400 ml-2">{topics.length ? `${topics.length} selected` : 'All topics'}</span>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {availableTopics.map(t => (
+                  <button
+                    key={t}
+                    onClick={() => setTopics(toggle(topics, t))}
+                    className={`px-2 py-0.5 rounded border text-xs transition ${
+                      topics.includes(t) ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-500 hover:bg-slate-50'
+                    }`}
+                  >
+                    {t}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-slate-700">
+            <input
+              type="checkbox"
+              checked={timeLimitMinutes !== null}
+              onChange={(e) => setTimeLimitMinutes(e.target.checked ? Math.max(5, questionCount * 2) : null)}
+            />
+            <span className="font-medium">Timed</span>
+            {timeLimitMinutes !== null && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  value={timeLimitMinutes}
+                  onChange={(e) => setTimeLimitMinutes(Math.max(1, Number(e.target.value) || 1))}
+                  className="w-16 border border-slate-200 rounded px-2 py-0.5"
+                />
+                <span className="text-slate-500">minutes</span>
+              </>
+            )}
+          </label>
+        </div>
+
+        <div className="p-6 border-t border-gray-100 bg-slate-50 rounded-b-xl flex justify-end">
+          <button
+            onClick={() => onStart({ questionCount, difficulty, moduleIds, topics, questionTypes, timeLimitMinutes })}
+            disabled={!canStart}
+            className="bg-emerald-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? <><i className="fas fa-spinner fa-spin mr-2"></i>Generating...</> : 'Start Exam'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExamSetup;
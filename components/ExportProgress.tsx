@@ -0,0 +1,32 @@
+import React from 'react';
+
+interface Props {
+  label: string;
+  done: number;
+  total: number; // 0 while the amount of work is not known yet
+  onCancel: () => void;
+}
+
+// Progress card for long-running downloads; sits above the page without blocking it
+const ExportProgress: React.FC<Props> = ({ label, done, total, onCancel }) => (
+  <div className="fixed bottom-4 left-4 z-[60] w-80 bg-white rounded-lg shadow-lg border border-slate-200 p-4">
+    <div className="flex items-start gap-3">
+      <i className="fas fa-spinner fa-spin text-blue-500 mt-0.5"></i>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-slate-700 truncate" title={label}>{label}</p>
+        <div className="h-1.5 bg-slate-100 rounded mt-2 overflow-hidden">
+          <div
+            className={`h-full bg-blue-500 transition-all ${total ? '' : 'animate-pulse w-full opacity-40'}`}
+            style={total ? { width: `${(done / total) * 100}%` } : undefined}
+          ></div>
+        </div>
+        {total > 0 && <p className="text-xs text-slate-400 mt-1">{done} / {total}</p>}
+      </div>
+      <button onClick={onCancel} className="text-xs text-slate-400 hover:text-red-600" title="Cancel">
+        Cancel
+      </button>
+    </div>
+  </div>
+);
+
+export default ExportProgress;
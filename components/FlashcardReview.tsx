@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Flashcard } from '../types';
+import { REVIEW_BUTTONS, ReviewGrade, scheduleReview } from '../utils/spacedRepetition';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  cards: Flashcard[];
+  moduleTitles: Record<string, string>;
+  onReview: (card: Flashcard) => void;
+}
+
+const FlashcardReview: React.FC<Props> = ({ isOpen, onClose, cards, moduleTitles, onReview }) => {
+  const [queue, setQueue] = useState<Flashcard[]>([]);
+  const [flipped, setFlipped] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+
+  // Take a snapshot of the due cards each time the deck is opened
+  useEffect(() => {
+    if (isOpen) {
+      setQueue(cards);
+      setFlipped(false);
+      setReviewed(0);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const current = queue[0];
+
+  const handleGrade = (grade: ReviewGrade) => {
+    const updated = scheduleReview(current, grade);
+    onReview(updated);
+    setReviewed(prev => prev + 1);
+    setFlipped(false);
+    // Lapsed cards go to the back of today's queue
+    setQueue(prev => (grade < 3 ? [...prev.slice(1), updated] : prev.slice(1)));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-xl w-full flex flex-col">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-slate-50 rounded-t-xl">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Flashcards</h2>
+            <p className="text-xs text-slate-500">{queue.length} due · {reviewed} reviewed this session</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="p-6">
+          {!current ? (
+            <div className="text-center py-12 text-slate-500">
+              <i className="fas fa-check-circle text-4xl text-emerald-500 mb-3"></i>
+              <p className="font-medium text-slate-700">All caught up!</p>
+              <p className="text-sm mt-1">No more cards are due today.</p>
+            </div>
+          ) : (
+            <div
+              onClick={() => setFlipped(true)}
+              className={`min-h-[220px] rounded-xl border-2 p-6 flex flex-col items-center justify-center text-center cursor-pointer transition-colors ${
+                flipped ? 'border-blue-200 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'
+              }`}
+            >
+              <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">
+                {moduleTitles[current.moduleId] || 'Module'}
+              </p>
+              <p className="text-2xl font-semibold text-slate-800">{current.term}</p>
+              {flipped ? (
+                <p className="mt-4 text-slate-600">{current.definition}</p>
+              ) : (
+                <p className="mt-4 text-sm text-slate-400">Click to reveal</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-100 bg-slate-50 rounded-b-xl flex justify-center gap-2">
+          {current && flipped ? (
+            REVIEW_BUTTONS.map(({ label, grade }) => (
+              <button
+                key={label}
+                onClick={() => handleGrade(grade)}
+                className={`px-4 py-2 rounded-lg font-medium text-sm transition ${
+                  grade < 3 ? 'bg-red-100 text-red-700 hover:bg-red-200' : 'bg-white border border-slate-200 text-slate-700 hover:bg-slate-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))
+          ) : (
+            <button
+              onClick={current ? () => setFlipped(true) : onClose}
+              className="bg-gray-800 text-white px-6 py-2 rounded-lg font-medium hover:bg-gray-900"
+            >
+              {current ? 'Show Answer' : 'Close'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlashcardReview;
@@ -1,14 +1,28 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import * as d3 from 'd3';
-import { KnowledgeGraphData, KnowledgeNode, KnowledgeLink } from '../types';
+import { CourseModule, KnowledgeGraphData, KnowledgeNode, KnowledgeLink } from '../types';
+import { statusColor } from '../utils/graphSnapshot';
 
 interface Props {
   data: KnowledgeGraphData;
   onNodeClick: (nodeId: string) => void;
+  modules?: CourseModule[];
+  // When set, only this module's concepts and their direct neighbours are shown
+  moduleFilter?: string | null;
+  onModuleFilterChange?: (moduleId: string | null) => void;
 }
 
-const KnowledgeGraph: React.FC<Props> = ({ data, onNodeClick }) => {
+const KnowledgeGraph: React.FC<Props> = ({ data, onNodeClick, modules, moduleFilter, onModuleFilterChange }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const nodeSelectionRef = useRef<d3.Selection<SVGCircleElement, KnowledgeNode, SVGGElement, unknown> | null>(null);
+  const onNodeClickRef = useRef(onNodeClick);
+  onNodeClickRef.current = onNodeClick;
+
+  // Only a change in nodes or links re-runs the layout; status changes just re-color (see below)
+  const layoutKey = useMemo(
+    () => JSON.stringify([(data?.nodes || []).map(n => [n.id, n.label, n.moduleId]), data?.links || [], moduleFilter]),
+    [data, moduleFilter]
+  );
 
   useEffect(() => {
     if (!svgRef.current || !data || !Array.isArray(data.nodes) || !data.nodes.length) return;
@@ -24,10 +38,20 @@ const KnowledgeGraph: React.FC<Props> = ({ data, onNodeClick }) => {
       .style("max-width", "100%")
       .style("height", "auto");
 
+    // Module filter: the module's own concepts, plus anything one link away for context
+    const core = new Set(data.nodes.filter(n => !moduleFilter || n.moduleId === moduleFilter).map(n => n.id));
+    const visible = new Set(core);
+    (data.links || []).forEach(l => {
+      if (core.has(l.source)) visible.add(l.target);
+      if (core.has(l.target)) visible.add(l.source);
+    });
+
     // Copy data to avoid mutation issues with React state
-    const nodes = data.nodes.map(d => ({ ...d }));
+    const nodes = data.nodes.filter(n => visible.has(n.id)).map(d => ({ ...d }));
     // Links might be missing in partial generation
-    const links = (data.links || []).map(d => ({ ...d }));
+    const links = (data.links || [])
+      .filter(l => visible.has(l.source) && visible.has(l.target))
+      .map(d => ({ ...d }));
 
     const simulation = d3.forceSimulation(nodes as any)
       .force("link", d3.forceLink(links).id((d: any) => d.id).distance(100))
@@ -49,15 +73,14 @@ const KnowledgeGraph: React.FC<Props> = ({ data, onNodeClick }) => {
       .data(nodes)
       .join("circle")
       .attr("r", 10)
-      .attr("fill", (d) => {
-          if (d.status === 'completed') return '#10b981'; // emerald-500
-          if (d.status === 'locked') return '#64748b'; // slate-500
-          return '#3b82f6'; // blue-500
-      })
+      .attr("fill", (d) => statusColor(d.status))
+      .attr("opacity", (d) => core.has(d.id) ? 1 : 0.35)
+      .style("cursor", "pointer")
       .call(drag(simulation) as any)
-      .on("click", (event, d) => onNodeClick(d.id));
+      .on("click", (event, d) => onNodeClickRef.current(d.id));
 
     node.append("title").text(d => d.label);
+    nodeSelectionRef.current = node as any;
 
     const labels = svg.append("g")
       .attr("class", "labels")
@@ -111,9 +134,41 @@ const KnowledgeGraph: React.FC<Props> = ({ data, onNodeClick }) => {
         .on("end", dragended);
     }
 
+    return () => {
+      simulation.stop();
+    };
+  }, [layoutKey]);
+
+  // Live re-coloring as learner progress changes, without restarting the simulation
+  useEffect(() => {
+    const statuses = new Map((data?.nodes || []).map(n => [n.id, n.status]));
+    nodeSelectionRef.current
+      ?.transition()
+      .duration(300)
+      .attr("fill", d => statusColor(statuses.get(d.id) || d.status));
   }, [data]);
 
-  return <svg ref={svgRef} className="w-full h-[400px] bg-slate-100 rounded-lg border border-slate-200" />;
+  return (
+    <div>
+      {modules && modules.length > 0 && onModuleFilterChange && (
+        <div className="flex items-center gap-2 mb-2 text-sm">
+          <label htmlFor="graph-module-filter" className="text-slate-500">Module</label>
+          <select
+            id="graph-module-filter"
+            value={moduleFilter || ''}
+            onChange={(e) => onModuleFilterChange(e.target.value || null)}
+            className="border border-slate-200 rounded px-2 py-1 text-slate-700 bg-white"
+          >
+            <option value="">All modules</option>
+            {modules.map((m, idx) => (
+              <option key={m.id} value={m.id}>{idx + 1}. {m.title}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      <svg ref={svgRef} className="w-full h-[400px] bg-slate-100 rounded-lg border border-slate-200" />
+    </div>
+  );
 };
 
 export default KnowledgeGraph;
\ No newline at end of file
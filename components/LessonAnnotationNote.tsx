@@ -0,0 +1,27 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { LessonAnnotation } from '../types';
+import { styleLabel } from '../utils/annotations';
+
+interface Props {
+  annotation: LessonAnnotation;
+  onDelete: (id: string) => void;
+}
+
+// An explanation shown under the passage it was asked about
+const LessonAnnotationNote: React.FC<Props> = ({ annotation, onDelete }) => (
+  <aside className="my-3 border-l-4 border-amber-300 bg-amber-50 rounded-r-lg px-4 py-3 text-sm text-slate-700">
+    <div className="flex items-start justify-between gap-2 mb-1">
+      <p className="text-xs text-amber-700">
+        <span className="font-bold uppercase tracking-wider">{styleLabel(annotation)}</span>
+        <span className="italic ml-2 line-clamp-1">“{annotation.quote}”</span>
+      </p>
+      <button onClick={() => onDelete(annotation.id)} className="text-amber-400 hover:text-red-500 shrink-0" title="Remove note">
+        <i className="fas fa-times"></i>
+      </button>
+    </div>
+    <ReactMarkdown>{annotation.content}</ReactMarkdown>
+  </aside>
+);
+
+export default LessonAnnotationNote;
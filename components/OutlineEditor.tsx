@@ -0,0 +1,276 @@
+import React, { useEffect, useState } from 'react';
+import { CourseModule, CourseStructure } from '../types';
+import {
+  addModule,
+  deleteModule,
+  mergeWithNext,
+  moveModule,
+  outlineChanges,
+  splitModule,
+  tidyModules,
+  updateModule
+} from '../utils/outline';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  structure: CourseStructure;
+  onSave: (structure: CourseStructure) => void;
+}
+
+// Edits are coalesced while the user keeps typing into the same field, so one undo reverts one field edit
+interface OutlineHistory {
+  past: CourseStructure[];
+  present: CourseStructure;
+  future: CourseStructure[];
+  lastKey?: string;
+}
+
+type ListField = 'topics' | 'learningObjectives';
+
+const OutlineEditor: React.FC<Props> = ({ isOpen, onClose, structure, onSave }) => {
+  const [history, setHistory] = useState<OutlineHistory>({ past: [], present: structure, future: [] });
+
+  useEffect(() => {
+    if (isOpen) setHistory({ past: [], present: structure, future: [] });
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const outline = history.present;
+
+  const apply = (update: (outline: CourseStructure) => CourseStructure, key?: string) => {
+    setHistory(h => {
+      const next = update(h.present);
+      if (next === h.present) return h;
+      const coalesce = key !== undefined && key === h.lastKey;
+      return { past: coalesce ? h.past : [...h.past, h.present], present: next, future: [], lastKey: key };
+    });
+  };
+
+  const editModules = (update: (modules: CourseModule[]) => CourseModule[], key?: string) => {
+    apply(o => {
+      const modules = update(o.modules);
+      return modules === o.modules ? o : { ...o, modules };
+    }, key);
+  };
+
+  const undo = () => {
+    setHistory(h => h.past.length
+      ? { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future] }
+      : h);
+  };
+
+  const redo = () => {
+    setHistory(h => h.future.length
+      ? { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1) }
+      : h);
+  };
+
+  // Text fields keep their own undo; the shortcuts apply to the outline everywhere else
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+    e.preventDefault();
+    if (e.shiftKey) redo(); else undo();
+  };
+
+  const editListItem = (index: number, field: ListField, itemIndex: number, value: string) => {
+    editModules(
+      modules => updateModule(modules, index, { [field]: modules[index][field].map((item, i) => i === itemIndex ? value : item) }),
+      `${outline.modules[index].id}:${field}:${itemIndex}`
+    );
+  };
+
+  const removeListItem = (index: number, field: ListField, itemIndex: number) => {
+    editModules(modules => updateModule(modules, index, { [field]: modules[index][field].filter((_, i) => i !== itemIndex) }));
+  };
+
+  const addListItem = (index: number, field: ListField) => {
+    editModules(modules => updateModule(modules, index, { [field]: [...modules[index][field], ""] }));
+  };
+
+  const tidied = tidyModules(outline.modules);
+  const { changed, removed } = outlineChanges(structure.modules, tidied);
+  const reordered = tidied.map(m => m.id).join() !== structure.modules.map(m => m.id).join();
+  const detailsChanged = outline.title.trim() !== structure.title || outline.description.trim() !== structure.description;
+  const hasChanges = changed.length > 0 || removed.length > 0 || reordered || detailsChanged;
+  // Lessons, exams and course files all need something to cover in every module
+  const missingTopics = tidied.find(m => !m.topics.length);
+
+  const save = () => {
+    onSave({
+      ...outline,
+      title: outline.title.trim() || structure.title,
+      description: outline.description.trim(),
+      modules: tidied
+    });
+  };
+
+  const renderList = (module: CourseModule, index: number, field: ListField, label: string, placeholder: string) => (
+    <div>
+      <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{label}</p>
+      <div className="space-y-1">
+        {module[field].map((item, itemIndex) => (
+          <div key={itemIndex} className="flex items-center gap-1">
+            <input
+              value={item}
+              onChange={(e) => editListItem(index, field, itemIndex, e.target.value)}
+              placeholder={placeholder}
+              className="flex-1 border border-gray-200 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-400"
+            />
+            {field === 'topics' && itemIndex > 0 && (
+              <button
+                onClick={() => editModules(modules => splitModule(modules, index, itemIndex))}
+                className="p-1 text-slate-300 hover:text-blue-600"
+                title="Split the module here: this topic and the ones below become a new module"
+              >
+                <i className="fas fa-cut"></i>
+              </button>
+            )}
+            <button
+              onClick={() => removeListItem(index, field, itemIndex)}
+              className="p-1 text-slate-300 hover:text-red-500"
+              title="Remove"
+            >
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
+        ))}
+        <button onClick={() => addListItem(index, field)} className="text-xs text-blue-600 hover:text-blue-800">
+          <i className="fas fa-plus mr-1"></i>Add
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4" onKeyDown={handleKeyDown}>
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-slate-50 rounded-t-xl shrink-0">
+          <h2 className="text-xl font-bold text-slate-800">Edit Course Outline</h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={undo}
+              disabled={!history.past.length}
+              className="p-2 text-slate-500 hover:text-slate-800 disabled:opacity-30"
+              title="Undo (Ctrl+Z)"
+            >
+              <i className="fas fa-undo"></i>
+            </button>
+            <button
+              onClick={redo}
+              disabled={!history.future.length}
+              className="p-2 text-slate-500 hover:text-slate-800 disabled:opacity-30"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <i className="fas fa-redo"></i>
+            </button>
+            <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-700" title="Close without saving">
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto text-sm">
+          <div className="space-y-2">
+            <input
+              value={outline.title}
+              onChange={(e) => { const title = e.target.value; apply(o => ({ ...o, title }), 'course:title'); }}
+              placeholder="Course title"
+              className="w-full border border-gray-200 rounded-lg px-3 py-2 text-lg font-bold text-slate-800 focus:outline-none focus:border-blue-400"
+            />
+            <textarea
+              value={outline.description}
+              onChange={(e) => { const description = e.target.value; apply(o => ({ ...o, description }), 'course:description'); }}
+              placeholder="Description"
+              rows={2}
+              className="w-full border border-gray-200 rounded-lg px-3 py-2 text-slate-600 focus:outline-none focus:border-blue-400"
+            />
+          </div>
+
+          {outline.modules.map((module, index) => (
+            <div key={module.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <span className="text-slate-400 font-semibold shrink-0">{index + 1}.</span>
+                <input
+                  value={module.title}
+                  onChange={(e) => {
+                    const title = e.target.value;
+                    editModules(modules => updateModule(modules, index, { title }), `${module.id}:title`);
+                  }}
+                  placeholder="Module title"
+                  className="flex-1 border border-gray-200 rounded px-2 py-1 font-medium text-slate-800 focus:outline-none focus:border-blue-400"
+                />
+                <button
+                  onClick={() => editModules(modules => moveModule(modules, index, -1))}
+                  disabled={index === 0}
+                  className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <i className="fas fa-arrow-up"></i>
+                </button>
+                <button
+                  onClick={() => editModules(modules => moveModule(modules, index, 1))}
+                  disabled={index === outline.modules.length - 1}
+                  className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <i className="fas fa-arrow-down"></i>
+                </button>
+                <button
+                  onClick={() => editModules(modules => mergeWithNext(modules, index))}
+                  disabled={index === outline.modules.length - 1}
+                  className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                  title="Merge with the next module"
+                >
+                  <i className="fas fa-compress-alt"></i>
+                </button>
+                <button
+                  onClick={() => editModules(modules => deleteModule(modules, index))}
+                  disabled={outline.modules.length === 1}
+                  className="p-1 text-slate-400 hover:text-red-500 disabled:opacity-30"
+                  title="Delete module"
+                >
+                  <i className="fas fa-trash-alt"></i>
+                </button>
+              </div>
+              <div className="grid md:grid-cols-2 gap-4">
+                {renderList(module, index, 'topics', 'Topics', 'Topic')}
+                {renderList(module, index, 'learningObjectives', 'Learning objectives', 'Objective')}
+              </div>
+              <button
+                onClick={() => editModules(modules => addModule(modules, index))}
+                className="text-xs text-slate-400 hover:text-blue-600"
+              >
+                <i className="fas fa-plus mr-1"></i>Insert a module below
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex items-center justify-between gap-4 shrink-0">
+          <p className="text-xs text-slate-500">
+            {missingTopics ? `Add at least one topic to "${missingTopics.title}" before saving.` : changed.length || removed.length
+              ? `Lessons and concepts will be regenerated for ${changed.length} changed module${changed.length === 1 ? '' : 's'}${removed.length ? `; ${removed.length} removed` : ''}. Everything else is kept.`
+              : hasChanges
+                ? 'No module content changed, so nothing will be regenerated.'
+                : 'No changes yet.'}
+          </p>
+          <div className="flex gap-2 shrink-0">
+            <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-600 hover:bg-slate-100">Cancel</button>
+            <button
+              onClick={save}
+              disabled={!hasChanges || !!missingTopics}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save outline
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OutlineEditor;
@@ -0,0 +1,70 @@
+import React, { useRef, useState } from 'react';
+import { startVoiceRecording, VoiceRecorder, VoiceRecording } from '../utils/audioRecorder';
+
+interface Props {
+  disabled: boolean;
+  getAudioContext: () => AudioContext;
+  onRecorded: (recording: VoiceRecording) => void;
+  onError: (err: unknown) => void;
+}
+
+// Ignore accidental taps
+const MIN_RECORDING_SECONDS = 0.4;
+
+// Hold to record, release to send
+const PushToTalkButton: React.FC<Props> = ({ disabled, getAudioContext, onRecorded, onError }) => {
+  const [recording, setRecording] = useState(false);
+  const recorderRef = useRef<Promise<VoiceRecorder> | null>(null);
+
+  const start = (e: React.PointerEvent) => {
+    if (disabled || recorderRef.current) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const recorder = startVoiceRecording(getAudioContext());
+    recorderRef.current = recorder;
+    setRecording(true);
+    recorder.catch(err => {
+      recorderRef.current = null;
+      setRecording(false);
+      onError(err);
+    });
+  };
+
+  const finish = async (send: boolean) => {
+    const pending = recorderRef.current;
+    if (!pending) return;
+    recorderRef.current = null;
+    setRecording(false);
+    // Microphone failures were already reported by start()
+    const recorder = await pending.catch(() => null);
+    if (!recorder) return;
+    if (!send) {
+      recorder.cancel();
+      return;
+    }
+    try {
+      const result = await recorder.stop();
+      if (result.durationSeconds >= MIN_RECORDING_SECONDS) onRecorded(result);
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  return (
+    <button
+      onPointerDown={start}
+      onPointerUp={() => finish(true)}
+      onPointerCancel={() => finish(false)}
+      onLostPointerCapture={() => finish(true)}
+      onContextMenu={(e) => e.preventDefault()}
+      disabled={disabled}
+      className={`p-2 rounded-lg transition select-none touch-none ${
+        recording ? 'bg-red-500 text-white animate-pulse' : 'text-slate-400 hover:text-blue-600 disabled:opacity-50'
+      }`}
+      title="Hold to talk"
+    >
+      <i className="fas fa-microphone"></i>
+    </button>
+  );
+};
+
+export default PushToTalkButton;
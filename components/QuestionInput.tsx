@@ -0,0 +1,111 @@
+import React from 'react';
+import { ExamAnswer, ExamQuestion } from '../types';
+
+interface Props {
+  question: ExamQuestion;
+  answer: ExamAnswer | undefined;
+  onChange: (answer: ExamAnswer) => void;
+  disabled: boolean;
+  // Colour options by correctness once the answers are graded
+  reveal: boolean;
+}
+
+// The answer control for one question of any type, shared by the exam and the Sidekick quiz
+const QuestionInput: React.FC<Props> = ({ question: q, answer, onChange, disabled, reveal }) => {
+  const setAnswer = (value: ExamAnswer) => {
+    if (!disabled) onChange(value);
+  };
+
+  const toggleMulti = (optionIdx: number) => {
+    const current = (answer as number[] | undefined) || [];
+    setAnswer(current.includes(optionIdx) ? current.filter(i => i !== optionIdx) : [...current, optionIdx]);
+  };
+
+  const optionClass = (oIdx: number, selected: boolean) => {
+    let btnClass = "w-full text-left p-3 rounded-lg border transition-colors ";
+    if (!reveal) {
+      return btnClass + (selected
+        ? "border-blue-500 bg-blue-50 text-blue-700"
+        : "border-gray-200 hover:bg-gray-50");
+    }
+    const isCorrect = q.type === 'multi'
+      ? (q.correctAnswerIndices || []).includes(oIdx)
+      : oIdx === q.correctAnswerIndex;
+    if (isCorrect) {
+      btnClass += "border-green-500 bg-green-50 text-green-700";
+    } else if (selected) {
+      btnClass += "border-red-500 bg-red-50 text-red-700";
+    } else {
+      btnClass += "border-gray-200 opacity-50";
+    }
+    return btnClass;
+  };
+
+  switch (q.type) {
+    case 'multi': {
+      const selected = (answer as number[] | undefined) || [];
+      return (
+        <>
+          <p className="text-xs text-slate-500">Select all that apply.</p>
+          {q.options.map((opt, oIdx) => (
+            <button key={oIdx} onClick={() => toggleMulti(oIdx)} className={optionClass(oIdx, selected.includes(oIdx))}>
+              <i className={`far ${selected.includes(oIdx) ? 'fa-check-square' : 'fa-square'} mr-2`}></i>
+              {opt}
+            </button>
+          ))}
+        </>
+      );
+    }
+    case 'short_answer':
+      return (
+        <textarea
+          value={(answer as string | undefined) || ''}
+          onChange={(e) => setAnswer(e.target.value)}
+          disabled={disabled}
+          rows={3}
+          placeholder="Write your answer..."
+          className="w-full p-3 rounded-lg border border-gray-200 text-sm focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-slate-50"
+        />
+      );
+    case 'numeric':
+      return (
+        <input
+          type="number"
+          step="any"
+          value={(answer as string | undefined) || ''}
+          onChange={(e) => setAnswer(e.target.value)}
+          disabled={disabled}
+          placeholder="Your answer"
+          className="w-48 p-3 rounded-lg border border-gray-200 text-sm focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-slate-50"
+        />
+      );
+    case 'single':
+    case 'true_false':
+    default:
+      return (
+        <>
+          {q.options.map((opt, oIdx) => (
+            <button key={oIdx} onClick={() => setAnswer(oIdx)} className={optionClass(oIdx, answer === oIdx)}>
+              {opt}
+            </button>
+          ))}
+        </>
+      );
+  }
+};
+
+// The expected answer for the types whose options do not show it
+export const ExpectedAnswer: React.FC<{ question: ExamQuestion }> = ({ question: q }) => {
+  if (q.type === 'short_answer') return <p><span className="font-bold">Model answer:</span> {q.correctAnswerText}</p>;
+  if (q.type === 'numeric') {
+    return (
+      <p>
+        <span className="font-bold">Answer:</span> {q.numericAnswer}
+        {q.tolerance ? ` (± ${q.tolerance})` : ''}
+      </p>
+    );
+  }
+  return null;
+};
+
+export default QuestionInput;
@@ -0,0 +1,89 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { CourseModule, WeakSpot } from '../types';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  weakSpots: WeakSpot[];
+  modules: CourseModule[];
+  lesson: string;
+  loadingLesson: boolean;
+  loadingFollowUp: boolean;
+  onStartFollowUp: () => void;
+}
+
+const RemediationModal: React.FC<Props> = ({
+  isOpen,
+  onClose,
+  weakSpots,
+  modules,
+  lesson,
+  loadingLesson,
+  loadingFollowUp,
+  onStartFollowUp
+}) => {
+  if (!isOpen) return null;
+
+  const moduleTitle = (id: string) => modules.find(m => m.id === id)?.title || '';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-slate-50 rounded-t-xl">
+          <h2 className="text-xl font-bold text-slate-800">Targeted Review</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-6">
+          <div>
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Weak topics</p>
+            <div className="space-y-2">
+              {weakSpots.map(spot => (
+                <div key={`${spot.moduleId}:${spot.topic}`} className="border border-amber-200 bg-amber-50 rounded-lg p-3 text-sm">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-semibold text-amber-800">{spot.topic}</span>
+                    <span className="text-xs text-amber-700 shrink-0">{spot.missedQuestions.length} missed</span>
+                  </div>
+                  <p className="text-xs text-slate-500">{moduleTitle(spot.moduleId)}</p>
+                  {spot.learningObjectives.length > 0 && (
+                    <ul className="mt-1 text-xs text-slate-600 list-disc pl-4">
+                      {spot.learningObjectives.map(o => <li key={o}>{o}</li>)}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {loadingLesson ? (
+            <div className="space-y-4 animate-pulse">
+              <div className="h-6 bg-slate-200 rounded w-1/3"></div>
+              <div className="h-4 bg-slate-200 rounded w-full"></div>
+              <div className="h-4 bg-slate-200 rounded w-2/3"></div>
+            </div>
+          ) : (
+            <div className="markdown-body">
+              <ReactMarkdown>{lesson}</ReactMarkdown>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-100 bg-slate-50 rounded-b-xl flex justify-between items-center">
+          <p className="text-sm text-gray-500">Ready? Re-test just these topics.</p>
+          <button
+            onClick={onStartFollowUp}
+            disabled={loadingLesson || loadingFollowUp}
+            className="bg-emerald-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loadingFollowUp ? <><i className="fas fa-spinner fa-spin mr-2"></i>Generating...</> : 'Take Follow-up Quiz'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RemediationModal;
@@ -0,0 +1,80 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { ExamAttempt } from '../types';
+import { PASSING_SCORE } from '../utils/progress';
+
+interface Props {
+  attempts: ExamAttempt[];
+}
+
+const HEIGHT = 180;
+const MARGIN = { top: 10, right: 12, bottom: 24, left: 36 };
+
+// Exam scores over time, with the passing line for reference
+const ScoreHistoryChart: React.FC<Props> = ({ attempts }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+    if (!attempts.length) return;
+
+    const width = svgRef.current.clientWidth || 480;
+    svg.attr("viewBox", [0, 0, width, HEIGHT]);
+
+    const points = [...attempts]
+      .sort((a, b) => a.completedAt - b.completedAt)
+      .map(a => ({ date: new Date(a.completedAt), score: a.total ? a.score / a.total : 0, attempt: a }));
+
+    const [first, last] = d3.extent(points, p => p.date) as [Date, Date];
+    // A single attempt still needs a range to sit in
+    const domain = first.getTime() === last.getTime()
+      ? [d3.timeDay.offset(first, -1), d3.timeDay.offset(last, 1)]
+      : [first, last];
+    const x = d3.scaleTime().domain(domain).range([MARGIN.left, width - MARGIN.right]);
+    const y = d3.scaleLinear().domain([0, 1]).range([HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+    svg.append("g")
+      .attr("transform", `translate(0,${HEIGHT - MARGIN.bottom})`)
+      .call(d3.axisBottom(x).ticks(Math.min(6, points.length + 1)).tickSizeOuter(0))
+      .style("color", "#94a3b8");
+    svg.append("g")
+      .attr("transform", `translate(${MARGIN.left},0)`)
+      .call(d3.axisLeft(y).ticks(4).tickFormat(d3.format(".0%")))
+      .style("color", "#94a3b8");
+
+    svg.append("line")
+      .attr("x1", MARGIN.left)
+      .attr("x2", width - MARGIN.right)
+      .attr("y1", y(PASSING_SCORE))
+      .attr("y2", y(PASSING_SCORE))
+      .attr("stroke", "#10b981")
+      .attr("stroke-dasharray", "4 4");
+
+    svg.append("path")
+      .datum(points)
+      .attr("fill", "none")
+      .attr("stroke", "#2563eb")
+      .attr("stroke-width", 2)
+      .attr("d", d3.line<typeof points[number]>().x(p => x(p.date)).y(p => y(p.score)));
+
+    svg.append("g")
+      .selectAll("circle")
+      .data(points)
+      .join("circle")
+      .attr("cx", p => x(p.date))
+      .attr("cy", p => y(p.score))
+      .attr("r", 4)
+      .attr("fill", p => p.score >= PASSING_SCORE ? "#10b981" : "#2563eb")
+      .append("title")
+      .text(p => `${p.date.toLocaleString()}: ${p.attempt.score} / ${p.attempt.total}`);
+  }, [attempts]);
+
+  if (!attempts.length) {
+    return <p className="text-sm text-slate-400 italic">No exams taken yet.</p>;
+  }
+  return <svg ref={svgRef} className="w-full" style={{ height: HEIGHT }}></svg>;
+};
+
+export default ScoreHistoryChart;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { ExplanationStyle } from '../types';
+import { EXPLANATION_STYLES } from '../utils/annotations';
+
+export interface TextSelection {
+  text: string;
+  top: number; // viewport coordinates of the selection's top centre
+  left: number;
+}
+
+interface Props {
+  selection: TextSelection;
+  onExplain: (style: ExplanationStyle) => void;
+  onAddFlashcard: () => void;
+  onAskSidekick: () => void;
+}
+
+// Floats above the text selected in a lesson. Buttons keep the selection alive by not taking focus.
+const SelectionToolbar: React.FC<Props> = ({ selection, onExplain, onAddFlashcard, onAskSidekick }) => {
+  const button = (key: string, label: string, icon: string, onClick: () => void) => (
+    <button
+      key={key}
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={onClick}
+      className="px-2 py-1.5 rounded hover:bg-slate-700 whitespace-nowrap"
+      title={label}
+    >
+      <i className={`fas ${icon} md:mr-1`}></i>
+      <span className="hidden md:inline">{label}</span>
+    </button>
+  );
+
+  return (
+    <div
+      className="fixed z-40 -translate-x-1/2 -translate-y-full flex items-center gap-0.5 bg-slate-800 text-white text-xs rounded-lg shadow-lg p-1"
+      style={{ top: Math.max(selection.top - 8, 48), left: selection.left }}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      {EXPLANATION_STYLES.map(s => button(s.style, s.label, s.icon, () => onExplain(s.style)))}
+      <span className="w-px h-4 bg-slate-600 mx-0.5"></span>
+      {button('flashcard', 'Add to flashcards', 'fa-clone', onAddFlashcard)}
+      {button('ask', 'Ask the Sidekick', 'fa-comment-alt', onAskSidekick)}
+    </div>
+  );
+};
+
+export default SelectionToolbar;
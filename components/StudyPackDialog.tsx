@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { ContentDepth } from '../types';
+import { StudyPackFormat, StudyPackOptions } from '../services/studyPack';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  defaultDepth: ContentDepth;
+  hasGraph: boolean;
+  onExport: (format: StudyPackFormat, options: StudyPackOptions) => void;
+}
+
+const FORMATS: { format: StudyPackFormat; label: string; icon: string; hint: string }[] = [
+  { format: 'pdf', label: 'Print / PDF', icon: 'fa-print', hint: "Opens the print dialog; choose \"Save as PDF\" to keep a file" },
+  { format: 'html', label: 'HTML', icon: 'fa-file-code', hint: 'One self-contained web page' },
+  { format: 'markdown', label: 'Markdown', icon: 'fa-file-alt', hint: 'For note-taking apps' }
+];
+
+const StudyPackDialog: React.FC<Props> = ({ isOpen, onClose, defaultDepth, hasGraph, onExport }) => {
+  const [depth, setDepth] = useState(defaultDepth);
+  const [includeGraph, setIncludeGraph] = useState(true);
+  const [includeQuestions, setIncludeQuestions] = useState(true);
+  const [generateMissingQuestions, setGenerateMissingQuestions] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setDepth(defaultDepth);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full flex flex-col">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-slate-50 rounded-t-xl">
+          <h2 className="text-xl font-bold text-slate-800">Study Pack</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 text-sm">
+          <p className="text-slate-500">Every module's lesson in one document, with a table of contents. Lessons you have not opened yet are generated first.</p>
+
+          <div>
+            <p className="font-semibold text-slate-700 mb-2">Lesson depth</p>
+            <div className="flex gap-2">
+              {Object.values(ContentDepth).map(d => (
+                <button
+                  key={d}
+                  onClick={() => setDepth(d)}
+                  className={`px-3 py-1.5 rounded-lg border text-xs font-medium ${
+                    depth === d ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-slate-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {d}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className={`flex items-center gap-2 ${hasGraph ? 'text-slate-700' : 'text-slate-400'}`}>
+              <input type="checkbox" checked={includeGraph && hasGraph} disabled={!hasGraph} onChange={(e) => setIncludeGraph(e.target.checked)} />
+              Knowledge graph snapshot
+            </label>
+            <label className="flex items-center gap-2 text-slate-700">
+              <input type="checkbox" checked={includeQuestions} onChange={(e) => setIncludeQuestions(e.target.checked)} />
+              Questions from past exams, with an answer key
+            </label>
+            <label className={`flex items-center gap-2 pl-6 ${includeQuestions ? 'text-slate-700' : 'text-slate-400'}`}>
+              <input
+                type="checkbox"
+                checked={generateMissingQuestions}
+                disabled={!includeQuestions}
+                onChange={(e) => setGenerateMissingQuestions(e.target.checked)}
+              />
+              Write practice questions for modules without exams
+            </label>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-gray-100 bg-slate-50 rounded-b-xl grid grid-cols-3 gap-2">
+          {FORMATS.map(f => (
+            <button
+              key={f.format}
+              onClick={() => onExport(f.format, { depth, includeGraph: includeGraph && hasGraph, includeQuestions, generateMissingQuestions })}
+              className="bg-white border border-gray-200 rounded-lg py-2 text-xs font-medium text-slate-700 hover:border-blue-500 hover:text-blue-700"
+              title={f.hint}
+            >
+              <i className={`fas ${f.icon} block text-lg mb-1`}></i>
+              {f.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudyPackDialog;
@@ -0,0 +1,208 @@
+import React, { useMemo } from 'react';
+import { Assessment, AssessmentType, CourseStructure, ModuleProgress } from '../types';
+import { buildStudyPlan, describeSession, formatMinutes, StudyPlan, StudyPlanOptions } from '../utils/studyPlan';
+import { formatIsoDate, toIsoDate } from '../utils/dates';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  structure: CourseStructure;
+  progress: ModuleProgress[];
+  preferences: StudyPlanOptions;
+  onPreferencesChange: (preferences: StudyPlanOptions) => void;
+  onAssessmentsChange: (assessments: Assessment[]) => void;
+  onExportCalendar: (plan: StudyPlan) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const ASSESSMENT_TYPES: { type: AssessmentType; label: string }[] = [
+  { type: 'exam', label: 'Exam' },
+  { type: 'quiz', label: 'Quiz' },
+  { type: 'assignment', label: 'Assignment' },
+  { type: 'project', label: 'Project' },
+  { type: 'other', label: 'Other' }
+];
+
+const SESSION_ICONS = {
+  learn: 'fa-book-open text-blue-500',
+  review: 'fa-redo text-amber-500',
+  practice: 'fa-pencil-alt text-emerald-600',
+  finish: 'fa-flag-checkered text-purple-500'
+};
+
+// Day-by-day plan up to each assessment. Dates and weights come from the syllabus and can be corrected here.
+const StudyPlanner: React.FC<Props> = ({
+  isOpen,
+  onClose,
+  structure,
+  progress,
+  preferences,
+  onPreferencesChange,
+  onAssessmentsChange,
+  onExportCalendar
+}) => {
+  const plan = useMemo(() => buildStudyPlan(structure, progress, preferences), [structure, progress, preferences]);
+
+  if (!isOpen) return null;
+
+  const today = toIsoDate(new Date());
+  const assessments = structure.assessments || [];
+  // Study days and upcoming due dates, in one timeline
+  const timeline = Array.from(new Set([
+    ...plan.days.map(d => d.date),
+    ...assessments.filter(a => a.dueDate && a.dueDate >= today).map(a => a.dueDate!)
+  ])).sort();
+  const shortfalls = plan.assessments.filter(p => p.shortfallMinutes > 0);
+
+  const setHours = (weekday: number, hours: number) => {
+    const hoursByWeekday = preferences.hoursByWeekday.map((h, i) => i === weekday ? Math.max(0, Math.min(16, hours || 0)) : h);
+    onPreferencesChange({ ...preferences, hoursByWeekday });
+  };
+
+  const updateAssessment = (id: string, changes: Partial<Assessment>) => {
+    onAssessmentsChange(assessments.map(a => a.id === id ? { ...a, ...changes } : a));
+  };
+
+  const addAssessment = () => {
+    const taken = new Set(assessments.map(a => a.id));
+    let n = assessments.length + 1;
+    while (taken.has(`assessment-${n}`)) n++;
+    onAssessmentsChange([...assessments, { id: `assessment-${n}`, title: 'Exam', type: 'exam', moduleIds: [] }]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-slate-50 rounded-t-xl shrink-0">
+          <h2 className="text-xl font-bold text-slate-800">Study Planner</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto text-sm">
+          <div>
+            <p className="font-semibold text-slate-700 mb-2">Hours you can study</p>
+            <div className="grid grid-cols-7 gap-2">
+              {WEEKDAYS.map((day, i) => (
+                <label key={day} className="text-center text-xs text-slate-500">
+                  {day}
+                  <input
+                    type="number"
+                    min={0}
+                    max={16}
+                    step={0.5}
+                    value={preferences.hoursByWeekday[i]}
+                    onChange={(e) => setHours(i, parseFloat(e.target.value))}
+                    className="mt-1 w-full border border-gray-200 rounded px-1 py-1 text-center text-sm text-slate-700"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <p className="font-semibold text-slate-700">Assessments</p>
+              <button onClick={addAssessment} className="text-xs text-blue-600 hover:text-blue-800">
+                <i className="fas fa-plus mr-1"></i>Add
+              </button>
+            </div>
+            {!assessments.length && (
+              <p className="text-slate-400 italic">No exams or deadlines were found in the syllabus. Add them to plan towards them.</p>
+            )}
+            <div className="space-y-2">
+              {assessments.map(a => (
+                <div key={a.id} className={`flex flex-wrap items-center gap-2 ${a.dueDate && a.dueDate < today ? 'opacity-50' : ''}`}>
+                  <input
+                    value={a.title}
+                    onChange={(e) => updateAssessment(a.id, { title: e.target.value })}
+                    className="flex-1 min-w-[10rem] border border-gray-200 rounded px-2 py-1"
+                  />
+                  <select
+                    value={a.type}
+                    onChange={(e) => updateAssessment(a.id, { type: e.target.value as AssessmentType })}
+                    className="border border-gray-200 rounded px-1 py-1"
+                  >
+                    {ASSESSMENT_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                  </select>
+                  <input
+                    type="date"
+                    value={a.dueDate || ''}
+                    onChange={(e) => updateAssessment(a.id, { dueDate: e.target.value || undefined })}
+                    className={`border rounded px-1 py-1 ${a.dueDate ? 'border-gray-200' : 'border-amber-400'}`}
+                    title={a.dueDate ? 'Due date' : 'No date in the syllabus; set one to plan for it'}
+                  />
+                  <span className="text-xs text-slate-500 w-20">{a.weight ? `${a.weight}% of grade` : ''}</span>
+                  <button
+                    onClick={() => onAssessmentsChange(assessments.filter(other => other.id !== a.id))}
+                    className="p-1 text-slate-300 hover:text-red-500"
+                    title="Remove"
+                  >
+                    <i className="fas fa-times"></i>
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {shortfalls.map(({ assessment, shortfallMinutes }) => (
+            <div key={assessment.id} className="bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-3">
+              <i className="fas fa-exclamation-triangle mr-2"></i>
+              {formatMinutes(shortfallMinutes)} of study for {assessment.title} does not fit before it is due. Add hours or start with the modules that matter most.
+            </div>
+          ))}
+
+          <div>
+            <p className="font-semibold text-slate-700 mb-2">Your plan</p>
+            {!timeline.length ? (
+              <p className="text-slate-400 italic">Nothing to plan: there are no upcoming assessments with a date.</p>
+            ) : (
+              <div className="space-y-3">
+                {timeline.map(date => {
+                  const sessions = plan.days.find(d => d.date === date)?.sessions || [];
+                  return (
+                    <div key={date} className="border-l-2 border-blue-200 pl-3">
+                      <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                        {date === today ? 'Today' : formatIsoDate(date)}
+                        {sessions.length > 0 && (
+                          <span className="font-normal normal-case ml-2">{formatMinutes(sessions.reduce((sum, s) => sum + s.minutes, 0))}</span>
+                        )}
+                      </p>
+                      {sessions.map((session, i) => (
+                        <p key={i} className="text-slate-700 mt-1">
+                          <i className={`fas ${SESSION_ICONS[session.kind]} w-5`}></i>
+                          {describeSession(session, structure)}
+                          <span className="text-slate-400 ml-2">{formatMinutes(session.minutes)}</span>
+                        </p>
+                      ))}
+                      {assessments.filter(a => a.dueDate === date).map(a => (
+                        <p key={a.id} className="text-red-600 font-semibold mt-1">
+                          <i className="fas fa-calendar-check w-5"></i>
+                          {a.title} due{a.weight ? ` · ${a.weight}% of grade` : ''}
+                        </p>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-end shrink-0">
+          <button
+            onClick={() => onExportCalendar(plan)}
+            disabled={!plan.days.length && !assessments.some(a => a.dueDate)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <i className="fas fa-calendar-plus mr-2"></i>Add to calendar (.ics)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudyPlanner;
@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { formatIsoDate } from '../utils/dates';
+import { formatMinutes } from '../utils/studyPlan';
+
+interface Props {
+  days: { date: string; seconds: number }[];
+}
+
+const HEIGHT = 160;
+const MARGIN = { top: 10, right: 8, bottom: 24, left: 36 };
+
+// Minutes spent on lessons per day
+const TimeOnTaskChart: React.FC<Props> = ({ days }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    const width = svgRef.current.clientWidth || 480;
+    svg.attr("viewBox", [0, 0, width, HEIGHT]);
+
+    const minutes = days.map(d => ({ ...d, minutes: Math.round(d.seconds / 60) }));
+    const x = d3.scaleBand()
+      .domain(minutes.map(d => d.date))
+      .range([MARGIN.left, width - MARGIN.right])
+      .padding(0.2);
+    const y = d3.scaleLinear()
+      .domain([0, Math.max(30, d3.max(minutes, d => d.minutes) || 0)])
+      .nice()
+      .range([HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+    // Label every other day so the axis stays readable on narrow screens
+    svg.append("g")
+      .attr("transform", `translate(0,${HEIGHT - MARGIN.bottom})`)
+      .call(d3.axisBottom(x)
+        .tickValues(minutes.filter((_, i) => (minutes.length - 1 - i) % 2 === 0).map(d => d.date))
+        .tickFormat(date => formatIsoDate(date, { day: "numeric", month: "short" }))
+        .tickSizeOuter(0))
+      .style("color", "#94a3b8");
+    svg.append("g")
+      .attr("transform", `translate(${MARGIN.left},0)`)
+      .call(d3.axisLeft(y).ticks(4).tickFormat(m => `${m}m`))
+      .style("color", "#94a3b8");
+
+    svg.append("g")
+      .selectAll("rect")
+      .data(minutes)
+      .join("rect")
+      .attr("x", d => x(d.date)!)
+      .attr("y", d => y(d.minutes))
+      .attr("width", x.bandwidth())
+      .attr("height", d => y(0) - y(d.minutes))
+      .attr("rx", 2)
+      .attr("fill", "#6366f1")
+      .append("title")
+      .text(d => `${formatIsoDate(d.date)}: ${formatMinutes(d.minutes)}`);
+  }, [days]);
+
+  return <svg ref={svgRef} className="w-full" style={{ height: HEIGHT }}></svg>;
+};
+
+export default TimeOnTaskChart;
@@ -0,0 +1,92 @@
+import React, { useEffect } from 'react';
+import { LLMError, LLMErrorKind, toLLMError } from '../services/providers';
+import { SyllabusIngestionError } from '../services/ingestion';
+import { CourseBundleError } from '../services/courseBundle';
+
+export interface Toast {
+  id: string;
+  kind: 'error' | 'info';
+  title: string;
+  message: string;
+  onRetry?: () => void;
+}
+
+const ERROR_TITLES: Record<LLMErrorKind, string> = {
+  quota: 'Quota reached',
+  safety: 'Blocked by safety filters',
+  invalid_output: 'Unexpected AI response',
+  network: 'Connection problem',
+  unsupported: 'Not available'
+};
+
+// Turns anything thrown by the services into a toast the learner can act on. Retry is only offered for
+// failures known to be transient; anything else (e.g. a storage error) would just fail again.
+export const toastFromError = (err: unknown, fallback: string, onRetry?: () => void): Toast => {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  // Storage failures are DOMExceptions, and an IndexedDB QuotaExceededError is not the AI service's quota
+  const error = err instanceof DOMException ? err : toLLMError(err);
+  if (error instanceof LLMError) {
+    return { id, kind: 'error', title: ERROR_TITLES[error.kind], message: error.message, onRetry: error.retryable ? onRetry : undefined };
+  }
+  if (err instanceof SyllabusIngestionError) {
+    return { id, kind: 'error', title: 'Unsupported file', message: err.message };
+  }
+  if (err instanceof CourseBundleError) {
+    return { id, kind: 'error', title: 'Could not open course file', message: err.message };
+  }
+  const message = err instanceof Error && err.message ? err.message : fallback;
+  return { id, kind: 'error', title: 'Something went wrong', message };
+};
+
+const AUTO_DISMISS_MS = 8000;
+
+const ToastItem: React.FC<{ toast: Toast; onDismiss: (id: string) => void }> = ({ toast, onDismiss }) => {
+  // Errors with a retry wait for the learner; everything else clears itself
+  useEffect(() => {
+    if (toast.onRetry) return;
+    const timer = setTimeout(() => onDismiss(toast.id), AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [toast.id]);
+
+  const isError = toast.kind === 'error';
+
+  return (
+    <div
+      role={isError ? 'alert' : 'status'}
+      className={`w-80 bg-white rounded-lg shadow-lg border-l-4 p-4 flex gap-3 ${isError ? 'border-red-500' : 'border-blue-500'}`}
+    >
+      <i className={`fas ${isError ? 'fa-exclamation-circle text-red-500' : 'fa-info-circle text-blue-500'} mt-0.5`}></i>
+      <div className="flex-1 min-w-0">
+        <p className="font-semibold text-sm text-slate-800">{toast.title}</p>
+        <p className="text-sm text-slate-600 mt-0.5">{toast.message}</p>
+        {toast.onRetry && (
+          <button
+            onClick={() => {
+              onDismiss(toast.id);
+              toast.onRetry?.();
+            }}
+            className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            <i className="fas fa-redo mr-1"></i> Retry
+          </button>
+        )}
+      </div>
+      <button onClick={() => onDismiss(toast.id)} className="text-slate-400 hover:text-slate-600 self-start" title="Dismiss">
+        <i className="fas fa-times"></i>
+      </button>
+    </div>
+  );
+};
+
+interface Props {
+  toasts: Toast[];
+  onDismiss: (id: string) => void;
+}
+
+const Toasts: React.FC<Props> = ({ toasts, onDismiss }) => (
+  <div className="fixed top-4 right-4 z-[60] space-y-2">
+    {toasts.map(t => <ToastItem key={t.id} toast={t} onDismiss={onDismiss} />)}
+  </div>
+);
+
+export default Toasts;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { DialogueSpeaker } from '../types';
+import { VOICES, VoicePreferences } from '../services/voicePreferences';
+
+export type AudioMode = 'read' | 'dialogue';
+
+interface Props {
+  mode: AudioMode;
+  onModeChange: (mode: AudioMode) => void;
+  preferences: VoicePreferences;
+  onPreferencesChange: (preferences: VoicePreferences) => void;
+}
+
+const SPEAKERS: DialogueSpeaker[] = ['Tutor', 'Student'];
+
+const VoiceSelect: React.FC<{ label: string; value: string; onChange: (voice: string) => void }> = ({ label, value, onChange }) => (
+  <label className="flex items-center gap-1.5 text-slate-500">
+    {label}
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="border border-slate-200 rounded px-2 py-1 text-slate-700 bg-white"
+    >
+      {VOICES.map(v => <option key={v.name} value={v.name}>{v.name} ({v.style})</option>)}
+    </select>
+  </label>
+);
+
+// Voice choices are saved as the learner's defaults for every course
+const VoiceSettings: React.FC<Props> = ({ mode, onModeChange, preferences, onPreferencesChange }) => (
+  <div className="flex flex-wrap items-center gap-3 text-xs">
+    <div className="flex bg-slate-100 rounded-lg p-1">
+      {([['read', 'Read aloud'], ['dialogue', 'Dialogue']] as [AudioMode, string][]).map(([m, label]) => (
+        <button
+          key={m}
+          onClick={() => onModeChange(m)}
+          className={`px-3 py-1 rounded font-medium transition-all ${
+            mode === m ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+    {mode === 'read' ? (
+      <VoiceSelect
+        label="Voice"
+        value={preferences.voice}
+        onChange={voice => onPreferencesChange({ ...preferences, voice })}
+      />
+    ) : (
+      SPEAKERS.map(speaker => (
+        <VoiceSelect
+          key={speaker}
+          label={speaker}
+          value={preferences.dialogue[speaker]}
+          onChange={voice => onPreferencesChange({ ...preferences, dialogue: { ...preferences.dialogue, [speaker]: voice } })}
+        />
+      ))
+    )}
+  </div>
+);
+
+export default VoiceSettings;
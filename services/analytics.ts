@@ -0,0 +1,48 @@
+import { ContentDepth, LearningEventDetails, LearningEventType } from "../types";
+import { saveEvent } from "./courseStore";
+
+// Local event log behind the learner analytics dashboard. Nothing leaves the device.
+
+// Shorter visits are clicks through the sidebar, not study
+const MIN_LESSON_SECONDS = 10;
+// A lesson left open in a visible tab stops counting after this long
+const MAX_SEGMENT_MS = 30 * 60 * 1000;
+
+// Fire and forget: a failed write is reported in the console and never interrupts studying
+export const logEvent = (courseId: string, type: LearningEventType, details: LearningEventDetails = {}): void => {
+  const now = Date.now();
+  saveEvent({ id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`, courseId, type, timestamp: now, ...details })
+    .catch(err => console.error("Failed to log learning event:", err));
+};
+
+// Counts the time a lesson is on screen while the tab is visible. The returned function stops the timer
+// and logs the time; closing the tab logs what has been counted so far.
+export const startLessonTimer = (courseId: string, moduleId: string, depth: ContentDepth): (() => void) => {
+  let activeMs = 0;
+  let visibleSince: number | null = document.visibilityState === "visible" ? Date.now() : null;
+
+  const pause = () => {
+    if (visibleSince !== null) activeMs += Math.min(Date.now() - visibleSince, MAX_SEGMENT_MS);
+    visibleSince = null;
+  };
+
+  const flush = () => {
+    pause();
+    const seconds = Math.round(activeMs / 1000);
+    activeMs = 0;
+    if (seconds >= MIN_LESSON_SECONDS) logEvent(courseId, "lesson_time", { moduleId, depth, seconds });
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === "visible") visibleSince = Date.now();
+    else pause();
+  };
+
+  document.addEventListener("visibilitychange", onVisibilityChange);
+  window.addEventListener("pagehide", flush);
+  return () => {
+    document.removeEventListener("visibilitychange", onVisibilityChange);
+    window.removeEventListener("pagehide", flush);
+    flush();
+  };
+};
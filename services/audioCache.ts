@@ -0,0 +1,26 @@
+import { generateAudioLesson } from "./geminiService";
+import { getAudio, saveAudio } from "./courseStore";
+import { sha256Hex } from "../utils/hash";
+import { SpeechOptions, UnsupportedFeatureError } from "./providers";
+
+// Speech is keyed by course, the exact text spoken and the voices, so replaying a lesson never re-hits
+// the TTS model and an edited or regenerated lesson only synthesizes the chunks that changed.
+const memory = new Map<string, string>();
+
+export const getOrSynthesizeSpeech = async (courseId: string, text: string, options: SpeechOptions = {}): Promise<string> => {
+  const { signal, ...voices } = options;
+  const id = `${courseId}:${await sha256Hex(JSON.stringify([text, voices]))}`;
+
+  const cached = memory.get(id) ?? (await getAudio(id))?.audio;
+  if (cached !== undefined) {
+    memory.set(id, cached);
+    return cached;
+  }
+
+  const audio = await generateAudioLesson(text, options);
+  if (!audio) throw new UnsupportedFeatureError("The selected model provider cannot synthesize speech, so lessons cannot be read aloud.");
+
+  memory.set(id, audio);
+  await saveAudio({ id, courseId, audio, createdAt: Date.now() });
+  return audio;
+};
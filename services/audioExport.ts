@@ -0,0 +1,89 @@
+import { ContentDepth, CourseModule, CourseStructure, SyllabusDocument } from "../types";
+import { getOrGenerateLesson } from "./lessonCache";
+import { getOrSynthesizeSpeech } from "./audioCache";
+import { SpeechOptions } from "./providers";
+import { buildSpeechScript } from "../utils/speechText";
+import { base64ToPcm, createSilence, encodeWav } from "../utils/audioUtils";
+
+export interface AudioExportProgress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+const PAUSE_BETWEEN_CHUNKS = 0.35;
+const PAUSE_BETWEEN_MODULES = 1.5;
+
+// Synthesizes every chunk of a text in order. Chunks already played in the audio tutor come from the cache.
+const synthesizeAll = async (
+  courseId: string,
+  texts: string[],
+  options: SpeechOptions,
+  onChunk: (done: number) => void
+): Promise<Uint8Array[]> => {
+  const pcm: Uint8Array[] = [];
+  for (let i = 0; i < texts.length; i++) {
+    options.signal?.throwIfAborted();
+    if (i > 0) pcm.push(createSilence(PAUSE_BETWEEN_CHUNKS));
+    pcm.push(base64ToPcm(await getOrSynthesizeSpeech(courseId, texts[i], options)));
+    onChunk(i + 1);
+  }
+  return pcm;
+};
+
+const modulePcm = async (
+  courseId: string,
+  syllabus: SyllabusDocument[],
+  module: CourseModule,
+  depth: ContentDepth,
+  voice: string,
+  intro: string | null,
+  signal: AbortSignal | undefined,
+  onProgress: (progress: AudioExportProgress) => void
+): Promise<Uint8Array[]> => {
+  onProgress({ label: `Preparing the lesson for ${module.title}`, done: 0, total: 0 });
+  const lesson = await getOrGenerateLesson({ courseId, syllabus, module, depth, signal });
+  const texts = buildSpeechScript(lesson).chunks.map(c => c.text);
+  if (intro) texts.unshift(intro);
+
+  return synthesizeAll(courseId, texts, { voice, signal }, done =>
+    onProgress({ label: `Recording ${module.title}`, done, total: texts.length })
+  );
+};
+
+// One module's lesson as a WAV file, generating the lesson first if it was never opened
+export const exportModuleAudio = async (
+  courseId: string,
+  syllabus: SyllabusDocument[],
+  module: CourseModule,
+  depth: ContentDepth,
+  voice: string,
+  onProgress: (progress: AudioExportProgress) => void,
+  signal?: AbortSignal
+): Promise<Blob> =>
+  encodeWav(await modulePcm(courseId, syllabus, module, depth, voice, null, signal, onProgress));
+
+// Every module back to back, each announced by number and title, as a single podcast episode
+export const exportCourseAudio = async (
+  courseId: string,
+  syllabus: SyllabusDocument[],
+  structure: CourseStructure,
+  depth: ContentDepth,
+  voice: string,
+  onProgress: (progress: AudioExportProgress) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const pcm: Uint8Array[] = [];
+  const modules = structure.modules;
+
+  for (let i = 0; i < modules.length; i++) {
+    const intro = i === 0
+      ? `${structure.title}. Module ${i + 1}: ${modules[i].title}.`
+      : `Module ${i + 1}: ${modules[i].title}.`;
+    if (i > 0) pcm.push(createSilence(PAUSE_BETWEEN_MODULES));
+    pcm.push(...await modulePcm(courseId, syllabus, modules[i], depth, voice, intro, signal, progress =>
+      onProgress({ ...progress, label: `Module ${i + 1} of ${modules.length}: ${progress.label}` })
+    ));
+  }
+  return encodeWav(pcm);
+};
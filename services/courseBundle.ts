@@ -0,0 +1,247 @@
+import { ContentDepth, CourseModule, ExamAttempt, ExamQuestion, LessonAnnotation, SavedCourse, SyllabusDocument } from "../types";
+import { createFlashcard } from "../utils/spacedRepetition";
+import { validateCourseStructure, validateExamQuestions, validateKnowledgeGraph } from "../utils/validation";
+import {
+  getCourse,
+  getQuestionSet,
+  lessonKey,
+  listCourseLessons,
+  listExamAttempts,
+  listFlashcards,
+  listQuestionSets,
+  putLessonRecord,
+  saveCourse,
+  saveFlashcards,
+  saveQuestionSet
+} from "./courseStore";
+
+// A processed course in one file, so a classmate can open it without re-uploading the syllabus
+// or paying for parsing, the graph and every lesson again. Exams and flashcards travel as material
+// only: the sharer's answers, scores and review schedule stay on their device.
+
+const BUNDLE_FORMAT = "syllabus-engine-course";
+export const BUNDLE_VERSION = 2;
+
+export interface BundledLesson {
+  moduleId: string;
+  depth: ContentDepth;
+  content: string;
+  annotations?: LessonAnnotation[];
+}
+
+// Every question the sharer was examined on or practised with in one module
+export interface BundledQuestionSet {
+  moduleId: string;
+  questions: ExamQuestion[];
+}
+
+export interface BundledFlashcard {
+  moduleId: string;
+  term: string;
+  definition: string;
+}
+
+export interface CourseBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  course: Omit<SavedCourse, "lastModuleId" | "updatedAt">;
+  lessons: BundledLesson[];
+  questionSets: BundledQuestionSet[];
+  flashcards: BundledFlashcard[];
+}
+
+// Thrown for files that are not a usable bundle; the message is safe to show to the user
+export class CourseBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CourseBundleError";
+  }
+}
+
+// Each entry upgrades a bundle from that version to the next. When the format changes, bump
+// BUNDLE_VERSION and add the step here so bundles shared by older versions of the app still open.
+const BUNDLE_MIGRATIONS: Record<number, (bundle: any) => any> = {
+  // Version 1 carried exam attempts and flashcards with their review schedule
+  1: ({ examAttempts, ...bundle }) => ({
+    ...bundle,
+    questionSets: questionSetsFromAttempts(
+      Array.isArray(examAttempts) ? examAttempts.filter((a: any) => Array.isArray(a?.questions)) : [],
+      Array.isArray(bundle.course?.structure?.modules) ? bundle.course.structure.modules : []
+    )
+  })
+};
+
+// Questions grouped by their module tag (or the module the exam was started from), without repeats.
+// Exams taken before a module was edited in the outline are left out for that module.
+const questionSetsFromAttempts = (
+  attempts: Pick<ExamAttempt, "moduleId" | "questions" | "completedAt">[],
+  modules: CourseModule[] = []
+): BundledQuestionSet[] => {
+  const byModule = new Map<string, ExamQuestion[]>();
+  attempts.forEach(attempt => attempt.questions.forEach(q => {
+    const moduleId = q.moduleId || attempt.moduleId;
+    const revisedAt = modules.find(m => m.id === moduleId)?.revisedAt;
+    if (revisedAt && attempt.completedAt < revisedAt) return;
+    const questions = byModule.get(moduleId) || [];
+    if (!questions.some(e => e.question === q.question)) questions.push(q);
+    byModule.set(moduleId, questions);
+  }));
+  return Array.from(byModule, ([moduleId, questions]) => ({ moduleId, questions }));
+};
+
+const mergeQuestions = (existing: ExamQuestion[], added: ExamQuestion[]): ExamQuestion[] =>
+  [...existing, ...added.filter(q => !existing.some(e => e.question === q.question))].map((q, i) => ({ ...q, id: i + 1 }));
+
+const migrateBundle = (raw: any): CourseBundle => {
+  if (raw?.format !== BUNDLE_FORMAT || !Number.isInteger(raw.version)) {
+    throw new CourseBundleError("This file is not a course exported from Syllabus Engine.");
+  }
+  if (raw.version > BUNDLE_VERSION) {
+    throw new CourseBundleError("This course was exported by a newer version of the app. Update the app to open it.");
+  }
+  let bundle = raw;
+  for (let version = raw.version; version < BUNDLE_VERSION; version++) {
+    const migrate = BUNDLE_MIGRATIONS[version];
+    if (!migrate) throw new CourseBundleError(`Course files of version ${version} can no longer be opened.`);
+    bundle = { ...migrate(bundle), version: version + 1 };
+  }
+  return bundle;
+};
+
+const isText = (value: unknown): value is string => typeof value === "string" && value.length > 0;
+
+const isSyllabusDocument = (doc: any): doc is SyllabusDocument =>
+  isText(doc?.name) && isText(doc.mimeType) && (typeof doc.text === "string" || isText(doc.data));
+
+// Runs the same checks as a fresh model response, so a damaged or hand-edited file is rejected
+// before anything is written; records that are merely incomplete are dropped instead
+const checkBundle = (bundle: CourseBundle): CourseBundle => {
+  const { course } = bundle;
+  if (!isText(course?.id) || !Array.isArray(course.syllabus) || !course.syllabus.every(isSyllabusDocument)) {
+    throw new CourseBundleError("This course file is incomplete or damaged.");
+  }
+  const structure = validateCourseStructure(course.structure);
+  const graph = course.graph ? validateKnowledgeGraph(course.graph, structure.value) : null;
+  const errors = [...structure.errors, ...(graph?.errors || [])];
+  if (errors.length) {
+    console.warn("Rejected course file:", errors);
+    throw new CourseBundleError("This course file is incomplete or damaged.");
+  }
+
+  const modules = structure.value.modules;
+  const moduleIds = new Set(modules.map(m => m.id));
+  const depths = Object.values(ContentDepth) as string[];
+  return {
+    ...bundle,
+    course: {
+      ...course,
+      structure: {
+        ...structure.value,
+        // The validator only keeps what a model writes; outline edit times come from this device's store
+        modules: structure.value.modules.map((m, i) => {
+          const revisedAt = course.structure.modules[i]?.revisedAt;
+          return typeof revisedAt === "number" ? { ...m, revisedAt } : m;
+        })
+      },
+      graph: graph?.value ?? null
+    },
+    lessons: (bundle.lessons || []).filter(l => moduleIds.has(l?.moduleId) && typeof l.content === "string" && depths.includes(l.depth)),
+    questionSets: (bundle.questionSets || []).flatMap(set => {
+      const module = modules.find(m => m.id === set?.moduleId);
+      const questions = module && validateExamQuestions(set.questions, [module]);
+      return questions?.usable ? [{ moduleId: module.id, questions: questions.value }] : [];
+    }),
+    flashcards: (bundle.flashcards || [])
+      .filter(c => moduleIds.has(c?.moduleId) && isText(c.term) && isText(c.definition))
+      .map(c => ({ moduleId: c.moduleId, term: c.term, definition: c.definition }))
+  };
+};
+
+export const exportCourseBundle = async (courseId: string): Promise<Blob> => {
+  const saved = await getCourse(courseId);
+  if (!saved) throw new CourseBundleError("This course no longer exists.");
+  const { lastModuleId, updatedAt, ...course } = saved;
+  const [lessons, examAttempts, savedSets, flashcards] = await Promise.all([
+    listCourseLessons(courseId),
+    listExamAttempts(courseId),
+    listQuestionSets(courseId),
+    listFlashcards(courseId)
+  ]);
+  // Practice questions written for a study pack join the exam questions of the same module
+  const questionSets = questionSetsFromAttempts(examAttempts, course.structure.modules);
+  savedSets.forEach(set => {
+    const existing = questionSets.find(s => s.moduleId === set.moduleId);
+    if (existing) existing.questions = mergeQuestions(existing.questions, set.questions);
+    else questionSets.push({ moduleId: set.moduleId, questions: set.questions });
+  });
+
+  const bundle: CourseBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    course,
+    lessons: lessons.map(l => ({ moduleId: l.moduleId, depth: l.depth, content: l.content, annotations: l.annotations })),
+    questionSets,
+    flashcards: flashcards.map(c => ({ moduleId: c.moduleId, term: c.term, definition: c.definition }))
+  };
+  return new Blob([JSON.stringify(bundle)], { type: "application/json" });
+};
+
+const readBundle = async (file: File): Promise<CourseBundle> => {
+  let raw: any;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new CourseBundleError("This file is not a course exported from Syllabus Engine.");
+  }
+  return checkBundle(migrateBundle(raw));
+};
+
+// Adds the bundle's course to this device. If the same syllabus is already here, the local course
+// is kept and only lessons, questions and flashcards it does not have yet are added. Shared questions
+// become practice material rather than exam history, and shared flashcards start as new cards.
+export const importCourseBundle = async (file: File): Promise<SavedCourse> => {
+  const bundle = await readBundle(file);
+  const courseId = bundle.course.id;
+  const existing = await getCourse(courseId);
+
+  const [localLessons, localSets, localCards] = existing
+    ? await Promise.all([
+        listCourseLessons(courseId),
+        Promise.all(bundle.questionSets.map(s => getQuestionSet(courseId, s.moduleId))),
+        listFlashcards(courseId)
+      ])
+    : [[], [], []];
+  const lessonIds = new Set(localLessons.map(l => l.id));
+  const cardIds = new Set(localCards.map(c => c.id));
+  const now = Date.now();
+  const cards = bundle.flashcards
+    .map(c => createFlashcard(courseId, c.moduleId, c.term, c.definition, now))
+    .filter(c => !cardIds.has(c.id));
+
+  const course: SavedCourse = existing || { ...bundle.course, updatedAt: Date.now() };
+  if (!existing) await saveCourse(course);
+  // A merged course that never had a graph takes the bundle's
+  else if (!existing.graph && bundle.course.graph) await saveCourse({ ...existing, graph: bundle.course.graph });
+
+  await Promise.all([
+    ...bundle.lessons
+      .filter(l => !lessonIds.has(lessonKey(courseId, l.moduleId, l.depth)))
+      .map(l => putLessonRecord({
+        id: lessonKey(courseId, l.moduleId, l.depth),
+        courseId,
+        moduleId: l.moduleId,
+        depth: l.depth,
+        content: l.content,
+        annotations: l.annotations,
+        createdAt: Date.now()
+      })),
+    ...bundle.questionSets.map((set, i) =>
+      saveQuestionSet(courseId, set.moduleId, mergeQuestions(localSets[i]?.questions || [], set.questions))
+    ),
+    saveFlashcards(cards)
+  ]);
+
+  return (await getCourse(courseId)) || course;
+};
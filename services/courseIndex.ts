@@ -0,0 +1,149 @@
+import { ContentDepth, CourseModule, CourseStructure, SavedLesson, SyllabusDocument } from "../types";
+import { listCourseLessons } from "./courseStore";
+import { embedTexts } from "./geminiService";
+import { isAbortError } from "./providers";
+import { chunkPassages, cosineSimilarity, createLexicalIndex, fuseRankings, LexicalIndex, Passage } from "../utils/retrieval";
+
+// The Sidekick's view of a whole course: the syllabus text, every module's outline and its saved lesson,
+// split into passages. Indexes are rebuilt in memory whenever a lesson or the outline changes.
+
+export interface RetrievalRequest {
+  courseId: string;
+  syllabus: SyllabusDocument[];
+  structure: CourseStructure;
+  query: string;
+  // Passages from the module being studied get a boost, and its lesson is indexed at this depth
+  currentModuleId?: string;
+  depth: ContentDepth;
+  signal?: AbortSignal;
+}
+
+interface CourseIndex {
+  signature: string;
+  passages: Passage[];
+  lexical: LexicalIndex;
+}
+
+const MAX_PASSAGES = 6;
+const MAX_CONTEXT_CHARS = 6000;
+const EMBED_BATCH = 100;
+
+const indexes = new Map<string, CourseIndex>();
+// Vectors by text; lessons rarely change, so most questions only embed the question itself
+const embeddings = new Map<string, number[]>();
+// Set once the provider reports it has no embedding model, so later questions skip straight to keywords
+let keywordsOnly = false;
+
+const DEEPEST_FIRST = [ContentDepth.DEEP_DIVE, ContentDepth.STANDARD, ContentDepth.SUMMARY];
+
+// One lesson per module, since deeper lessons repeat shallower ones: the depth the student reads, else the deepest saved
+const pickLesson = (lessons: SavedLesson[], depth: ContentDepth): SavedLesson | undefined =>
+  lessons.find(l => l.depth === depth) ?? DEEPEST_FIRST.map(d => lessons.find(l => l.depth === d)).find(Boolean);
+
+const moduleOutline = (module: CourseModule, label: string) =>
+  [
+    label,
+    `Topics: ${module.topics.join(", ")}`,
+    module.learningObjectives.length ? `Learning objectives: ${module.learningObjectives.join("; ")}` : ""
+  ].filter(Boolean).join("\n");
+
+const buildPassages = (syllabus: SyllabusDocument[], structure: CourseStructure, lessons: SavedLesson[], depth: ContentDepth): Passage[] => {
+  const passages: Passage[] = [];
+
+  // Documents the model reads natively (PDFs) have no local text; the Sidekick gets those as attachments instead
+  syllabus.forEach((doc, i) => {
+    if (doc.text) passages.push(...chunkPassages(doc.text, { label: `Syllabus: ${doc.name}` }, `syllabus-${i}`));
+  });
+
+  structure.modules.forEach((module, i) => {
+    const source = { moduleId: module.id, label: `Module ${i + 1}: ${module.title}` };
+    passages.push({ id: `${module.id}:outline`, text: moduleOutline(module, source.label), source });
+    const lesson = pickLesson(lessons.filter(l => l.moduleId === module.id), depth);
+    if (lesson) passages.push(...chunkPassages(lesson.content, source, module.id));
+  });
+
+  return passages;
+};
+
+const getIndex = async (request: RetrievalRequest): Promise<CourseIndex> => {
+  const { courseId, syllabus, structure, depth } = request;
+  const lessons = await listCourseLessons(courseId);
+  const signature = JSON.stringify([depth, structure.modules, lessons.map(l => [l.id, l.createdAt])]);
+
+  const cached = indexes.get(courseId);
+  if (cached?.signature === signature) return cached;
+
+  const passages = buildPassages(syllabus, structure, lessons, depth);
+  const index = { signature, passages, lexical: createLexicalIndex(passages) };
+  indexes.set(courseId, index);
+  return index;
+};
+
+// Returns false when the provider has no embedding model
+const embedMissing = async (texts: string[], signal?: AbortSignal): Promise<boolean> => {
+  const missing = Array.from(new Set(texts.filter(t => !embeddings.has(t))));
+  for (let i = 0; i < missing.length; i += EMBED_BATCH) {
+    const batch = missing.slice(i, i + EMBED_BATCH);
+    const vectors = await embedTexts(batch, signal);
+    if (!vectors) return false;
+    batch.forEach((text, j) => {
+      if (vectors[j]?.length) embeddings.set(text, vectors[j]);
+    });
+  }
+  return true;
+};
+
+// Passage ids by similarity to the query; empty when embeddings are unavailable, leaving keyword search alone
+const semanticRanking = async (passages: Passage[], query: string, signal?: AbortSignal): Promise<string[]> => {
+  if (keywordsOnly) return [];
+  try {
+    if (!(await embedMissing([query, ...passages.map(p => p.text)], signal))) {
+      keywordsOnly = true;
+      return [];
+    }
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.warn("Embedding search failed, using keyword search only:", err);
+    return [];
+  }
+
+  const queryVector = embeddings.get(query);
+  if (!queryVector) return [];
+  return passages
+    .map(p => ({ id: p.id, score: cosineSimilarity(queryVector, embeddings.get(p.text) || []) }))
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(r => r.id);
+};
+
+// The passages most relevant to a question, best first, within a budget that fits comfortably in a prompt
+export const retrieveCourseContext = async (request: RetrievalRequest): Promise<Passage[]> => {
+  const { passages, lexical } = await getIndex(request);
+  if (!passages.length) return [];
+
+  const byId = new Map(passages.map(p => [p.id, p]));
+  const lexicalRanking = lexical.search(request.query);
+  const semantic = await semanticRanking(passages, request.query, request.signal);
+  const combined = fuseRankings([lexicalRanking, semantic]);
+  // The module on screen counts as a third ranking, so close calls go its way
+  const current = request.currentModuleId
+    ? combined.filter(id => byId.get(id)?.source.moduleId === request.currentModuleId)
+    : [];
+  const ranked = fuseRankings([lexicalRanking, semantic, current]);
+
+  const selected: Passage[] = [];
+  let chars = 0;
+  for (const id of ranked) {
+    const passage = byId.get(id)!;
+    if (selected.length >= MAX_PASSAGES || chars + passage.text.length > MAX_CONTEXT_CHARS) break;
+    selected.push(passage);
+    chars += passage.text.length;
+  }
+
+  // A question with no matching words (e.g. "what is this about?") still gets the current module's outline
+  if (!selected.length && request.currentModuleId) {
+    const outline = byId.get(`${request.currentModuleId}:outline`);
+    if (outline) selected.push(outline);
+  }
+  return selected;
+};
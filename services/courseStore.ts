@@ -0,0 +1,334 @@
+import { ChatThread, ContentDepth, DialogueLine, ExamAttempt, ExamQuestion, Flashcard, LearningEvent, LessonAnnotation, Message, ModuleProgress, SavedAudio, SavedChat, SavedCourse, SavedDialogue, SavedLesson, SavedQuestionSet } from "../types";
+import { anchorBlockIndex } from "../utils/annotations";
+import { progressKey } from "../utils/progress";
+import { splitMarkdownBlocks } from "../utils/speechText";
+
+const DB_NAME = "syllabus-engine";
+const DB_VERSION = 8;
+
+type StoreName = "courses" | "lessons" | "examAttempts" | "chats" | "flashcards" | "progress" | "audio" | "dialogues" | "chatThreads" | "events" | "questionSets";
+
+// A failed open is not cached, so the next store call tries again
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      let settled = false;
+      const fail = (error: unknown) => {
+        if (settled) return;
+        settled = true;
+        dbPromise = null;
+        reject(error);
+      };
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore("courses", { keyPath: "id" });
+          db.createObjectStore("lessons", { keyPath: "id" }).createIndex("courseId", "courseId");
+          db.createObjectStore("examAttempts", { keyPath: "id" }).createIndex("courseId", "courseId");
+          db.createObjectStore("chats", { keyPath: "courseId" });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore("flashcards", { keyPath: "id" }).createIndex("courseId", "courseId");
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore("progress", { keyPath: "id" }).createIndex("courseId", "courseId");
+        }
+        if (event.oldVersion < 4) {
+          db.createObjectStore("audio", { keyPath: "id" }).createIndex("courseId", "courseId");
+        }
+        if (event.oldVersion < 5) {
+          db.createObjectStore("dialogues", { keyPath: "id" }).createIndex("courseId", "courseId");
+        }
+        if (event.oldVersion < 6) {
+          db.createObjectStore("chatThreads", { keyPath: "id" }).createIndex("courseId", "courseId");
+        }
+        if (event.oldVersion < 7) {
+          db.createObjectStore("events", { keyPath: "id" }).createIndex("courseId", "courseId");
+        }
+        if (event.oldVersion < 8) {
+          db.createObjectStore("questionSets", { keyPath: "id" }).createIndex("courseId", "courseId");
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // The open was given up on while blocked; a later call opens it again
+        if (settled) {
+          db.close();
+          return;
+        }
+        settled = true;
+        // A newer version of the app in another tab wants to upgrade: step aside and reopen on the next call
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => fail(request.error);
+      // An older version of the app in another tab still has the database open
+      request.onblocked = () => fail(new Error("Syllabus Engine is open in another tab. Close the other tabs and try again."));
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+};
+
+const deleteByCourse = async (name: StoreName, courseId: string): Promise<void> => {
+  const keys = await withStore(name, "readonly", s => s.index("courseId").getAllKeys(courseId));
+  await Promise.all(keys.map(key => withStore(name, "readwrite", s => s.delete(key))));
+};
+
+export const lessonKey = (courseId: string, moduleId: string, depth: ContentDepth) =>
+  `${courseId}:${moduleId}:${depth}`;
+
+// Courses
+
+// Courses saved before multi-format ingestion stored the syllabus as a single base64 PDF
+const normalizeCourse = (course: any): SavedCourse =>
+  typeof course.syllabus === "string"
+    ? { ...course, syllabus: [{ name: course.fileName, mimeType: "application/pdf", data: course.syllabus }] }
+    : course;
+
+export const listCourses = async (): Promise<SavedCourse[]> => {
+  const courses = await withStore<SavedCourse[]>("courses", "readonly", s => s.getAll());
+  return courses.map(normalizeCourse).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getCourse = async (id: string): Promise<SavedCourse | undefined> => {
+  const course = await withStore<SavedCourse | undefined>("courses", "readonly", s => s.get(id));
+  return course && normalizeCourse(course);
+};
+
+export const saveCourse = async (course: SavedCourse): Promise<void> => {
+  await withStore("courses", "readwrite", s => s.put({ ...course, updatedAt: Date.now() }));
+};
+
+export const updateCourse = async (id: string, changes: Partial<SavedCourse>): Promise<void> => {
+  const existing = await getCourse(id);
+  if (!existing) return;
+  await saveCourse({ ...existing, ...changes, id });
+};
+
+export const deleteCourse = async (id: string): Promise<void> => {
+  await Promise.all([
+    withStore("courses", "readwrite", s => s.delete(id)),
+    withStore("chats", "readwrite", s => s.delete(id)),
+    deleteByCourse("lessons", id),
+    deleteByCourse("examAttempts", id),
+    deleteByCourse("flashcards", id),
+    deleteByCourse("progress", id),
+    deleteByCourse("audio", id),
+    deleteByCourse("dialogues", id),
+    deleteByCourse("chatThreads", id),
+    deleteByCourse("events", id),
+    deleteByCourse("questionSets", id)
+  ]);
+};
+
+// Lessons
+
+export const getLesson = (
+  courseId: string,
+  moduleId: string,
+  depth: ContentDepth
+): Promise<SavedLesson | undefined> =>
+  withStore<SavedLesson | undefined>("lessons", "readonly", s => s.get(lessonKey(courseId, moduleId, depth)));
+
+// A regenerated lesson keeps the annotations whose passage it still contains
+export const saveLesson = async (
+  courseId: string,
+  moduleId: string,
+  depth: ContentDepth,
+  content: string
+): Promise<void> => {
+  const previous = await getLesson(courseId, moduleId, depth);
+  const blocks = splitMarkdownBlocks(content);
+  const lesson: SavedLesson = {
+    id: lessonKey(courseId, moduleId, depth),
+    courseId,
+    moduleId,
+    depth,
+    content,
+    annotations: (previous?.annotations || []).filter(a => anchorBlockIndex(blocks, a.quote) !== -1),
+    createdAt: Date.now()
+  };
+  await withStore("lessons", "readwrite", s => s.put(lesson));
+};
+
+// Stores a lesson exactly as given, e.g. one imported from a course bundle
+export const putLessonRecord = async (lesson: SavedLesson): Promise<void> => {
+  await withStore("lessons", "readwrite", s => s.put(lesson));
+};
+
+export const saveLessonAnnotations = async (
+  courseId: string,
+  moduleId: string,
+  depth: ContentDepth,
+  annotations: LessonAnnotation[]
+): Promise<void> => {
+  const lesson = await getLesson(courseId, moduleId, depth);
+  if (!lesson) return;
+  await withStore("lessons", "readwrite", s => s.put({ ...lesson, annotations }));
+};
+
+export const listCourseLessons = (courseId: string): Promise<SavedLesson[]> =>
+  withStore<SavedLesson[]>("lessons", "readonly", s => s.index("courseId").getAll(courseId));
+
+export const deleteLesson = async (courseId: string, moduleId: string, depth: ContentDepth): Promise<void> => {
+  await withStore("lessons", "readwrite", s => s.delete(lessonKey(courseId, moduleId, depth)));
+};
+
+export const deleteCourseLessons = (courseId: string): Promise<void> => deleteByCourse("lessons", courseId);
+
+// Dialogue scripts, stored under the key of the lesson they were written from
+
+export const getDialogue = (
+  courseId: string,
+  moduleId: string,
+  depth: ContentDepth
+): Promise<SavedDialogue | undefined> =>
+  withStore<SavedDialogue | undefined>("dialogues", "readonly", s => s.get(lessonKey(courseId, moduleId, depth)));
+
+export const saveDialogue = async (
+  courseId: string,
+  moduleId: string,
+  depth: ContentDepth,
+  lines: DialogueLine[]
+): Promise<void> => {
+  const dialogue: SavedDialogue = {
+    id: lessonKey(courseId, moduleId, depth),
+    courseId,
+    moduleId,
+    depth,
+    lines,
+    createdAt: Date.now()
+  };
+  await withStore("dialogues", "readwrite", s => s.put(dialogue));
+};
+
+export const deleteDialogue = async (courseId: string, moduleId: string, depth: ContentDepth): Promise<void> => {
+  await withStore("dialogues", "readwrite", s => s.delete(lessonKey(courseId, moduleId, depth)));
+};
+
+export const deleteCourseDialogues = (courseId: string): Promise<void> => deleteByCourse("dialogues", courseId);
+
+// Exam attempts
+
+export const listExamAttempts = async (courseId: string, moduleId?: string): Promise<ExamAttempt[]> => {
+  const attempts = await withStore<ExamAttempt[]>("examAttempts", "readonly", s => s.index("courseId").getAll(courseId));
+  return attempts
+    .filter(a => !moduleId || a.moduleId === moduleId || a.moduleIds?.includes(moduleId))
+    .sort((a, b) => a.completedAt - b.completedAt);
+};
+
+export const saveExamAttempt = async (attempt: ExamAttempt): Promise<void> => {
+  await withStore("examAttempts", "readwrite", s => s.put(attempt));
+};
+
+// Practice question sets, one per module
+
+export const getQuestionSet = (courseId: string, moduleId: string): Promise<SavedQuestionSet | undefined> =>
+  withStore<SavedQuestionSet | undefined>("questionSets", "readonly", s => s.get(progressKey(courseId, moduleId)));
+
+export const listQuestionSets = (courseId: string): Promise<SavedQuestionSet[]> =>
+  withStore<SavedQuestionSet[]>("questionSets", "readonly", s => s.index("courseId").getAll(courseId));
+
+export const saveQuestionSet = async (courseId: string, moduleId: string, questions: ExamQuestion[]): Promise<void> => {
+  const set: SavedQuestionSet = { id: progressKey(courseId, moduleId), courseId, moduleId, questions, createdAt: Date.now() };
+  await withStore("questionSets", "readwrite", s => s.put(set));
+};
+
+// Chat threads
+
+// A course's single pre-thread conversation becomes a free-form thread the first time its threads are listed
+const migrateLegacyChat = async (courseId: string): Promise<ChatThread[]> => {
+  const chat = await withStore<SavedChat | undefined>("chats", "readonly", s => s.get(courseId));
+  if (!chat?.messages.length) return [];
+  const thread: ChatThread = {
+    id: `${courseId}:legacy`,
+    courseId,
+    title: "Earlier conversation",
+    messages: chat.messages,
+    createdAt: chat.messages[0].timestamp,
+    updatedAt: chat.messages[chat.messages.length - 1].timestamp
+  };
+  await saveChatThread(thread);
+  await withStore("chats", "readwrite", s => s.delete(courseId));
+  return [thread];
+};
+
+export const listChatThreads = async (courseId: string): Promise<ChatThread[]> => {
+  const threads = await withStore<ChatThread[]>("chatThreads", "readonly", s => s.index("courseId").getAll(courseId));
+  return (threads.length ? threads : await migrateLegacyChat(courseId)).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveChatThread = async (thread: ChatThread): Promise<void> => {
+  await withStore("chatThreads", "readwrite", s => s.put(thread));
+};
+
+export const deleteChatThread = async (id: string): Promise<void> => {
+  await withStore("chatThreads", "readwrite", s => s.delete(id));
+};
+
+// Flashcards
+
+export const listFlashcards = (courseId: string): Promise<Flashcard[]> =>
+  withStore<Flashcard[]>("flashcards", "readonly", s => s.index("courseId").getAll(courseId));
+
+export const saveFlashcards = async (cards: Flashcard[]): Promise<void> => {
+  await Promise.all(cards.map(card => withStore("flashcards", "readwrite", s => s.put(card))));
+};
+
+// Module progress
+
+export const listProgress = (courseId: string): Promise<ModuleProgress[]> =>
+  withStore<ModuleProgress[]>("progress", "readonly", s => s.index("courseId").getAll(courseId));
+
+export const updateProgress = async (
+  courseId: string,
+  moduleId: string,
+  changes: Partial<ModuleProgress>
+): Promise<ModuleProgress> => {
+  const id = progressKey(courseId, moduleId);
+  const existing = await withStore<ModuleProgress | undefined>("progress", "readonly", s => s.get(id));
+  const progress: ModuleProgress = { ...(existing || { id, courseId, moduleId }), ...changes };
+  await withStore("progress", "readwrite", s => s.put(progress));
+  return progress;
+};
+
+// Synthesized audio
+
+export const getAudio = (id: string): Promise<SavedAudio | undefined> =>
+  withStore<SavedAudio | undefined>("audio", "readonly", s => s.get(id));
+
+export const saveAudio = async (audio: SavedAudio): Promise<void> => {
+  await withStore("audio", "readwrite", s => s.put(audio));
+};
+
+// Learning events
+
+export const saveEvent = async (event: LearningEvent): Promise<void> => {
+  await withStore("events", "readwrite", s => s.put(event));
+};
+
+export const listEvents = async (courseId: string): Promise<LearningEvent[]> => {
+  const events = await withStore<LearningEvent[]>("events", "readonly", s => s.index("courseId").getAll(courseId));
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+};
@@ -0,0 +1,21 @@
+import { ContentDepth, CourseModule, DialogueLine } from "../types";
+import { generateDialogueScript } from "./geminiService";
+import { getDialogue, saveDialogue } from "./courseStore";
+
+// Dialogue scripts are written from a saved lesson and stored under the same key.
+// lessonCache deletes them whenever that lesson is regenerated or invalidated.
+export const getOrGenerateDialogue = async (
+  courseId: string,
+  module: CourseModule,
+  depth: ContentDepth,
+  lesson: string,
+  signal?: AbortSignal
+): Promise<DialogueLine[]> => {
+  const cached = await getDialogue(courseId, module.id, depth);
+  if (cached) return cached.lines;
+
+  const lines = await generateDialogueScript(module, lesson, signal);
+  signal?.throwIfAborted();
+  await saveDialogue(courseId, module.id, depth, lines);
+  return lines;
+};
@@ -1,8 +1,12 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { CourseStructure, ContentDepth, ExamQuestion, KnowledgeGraphData } from "../types";
+import { Type } from "@google/genai";
+import { CourseStructure, CourseModule, ContentDepth, DialogueLine, ExplanationStyle, Message, ExamAnswer, ExamConfig, ExamQuestion, KnowledgeGraphData, QuestionResult, QuestionType, SyllabusDocument, WeakSpot } from "../types";
+import { messageText } from "../utils/chatThreads";
+import { gradeObjectiveQuestion } from "../utils/examGrading";
+import { Passage } from "../utils/retrieval";
+import { validateCourseStructure, validateDialogue, validateExamQuestions, validateKnowledgeGraph, ValidationResult } from "../utils/validation";
+import { createProvider, GenerateRequest, InlinePart, InvalidOutputError, SpeechOptions } from "./providers";
 
-const apiKey = process.env.API_KEY || ''; 
-const ai = new GoogleGenAI({ apiKey });
+const provider = createProvider();
 
 // Helper to convert file to base64
 export const fileToGenerativePart = async (file: File): Promise<string> => {
@@ -36,78 +40,118 @@ const safeParseJSON = (text: string | undefined): any => {
     }
 };
 
-export const parseSyllabus = async (fileBase64: string): Promise<CourseStructure> => {
-  // Use Flash for fast structural extraction
-  const modelId = "gemini-3-flash-preview";
-  
-  const response = await ai.models.generateContent({
-    model: modelId,
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            mimeType: "application/pdf",
-            data: fileBase64
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Runs a JSON request through a validator; unusable output is sent back to the model together with
+// the validation errors so it can correct itself. Minor problems are repaired silently.
+// Throws InvalidOutputError if the model still has not produced anything usable.
+const generateValidated = async <T>(
+    request: GenerateRequest,
+    validate: (parsed: any) => ValidationResult<T>,
+    description: string
+): Promise<T> => {
+    let prompt = request.prompt;
+    let result = validate(null);
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        const text = await provider.generate({ ...request, prompt });
+        result = validate(safeParseJSON(text));
+        if (result.usable) break;
+        console.warn(`Invalid ${request.task} output (attempt ${attempt + 1}):`, result.errors);
+        prompt = `${request.prompt}
+
+                Your previous response could not be used:
+                ${result.errors.map(e => `- ${e}`).join("\n                ")}
+                Return the complete corrected JSON only.`;
+    }
+    if (!result.usable) {
+        throw new InvalidOutputError(`The AI service returned ${description} that could not be used. Try again.`, result.errors);
+    }
+    if (result.errors.length) console.warn(`Repaired ${request.task} output:`, result.errors);
+    return result.value;
+};
+
+const syllabusAttachments = (syllabus: SyllabusDocument[]): InlinePart[] =>
+  syllabus
+    .filter(d => d.data !== undefined)
+    .map(d => ({ mimeType: d.mimeType, data: d.data as string }));
+
+// PDFs go to the model as attachments; documents whose text was extracted locally are inlined into the prompt
+const withSyllabus = (syllabus: SyllabusDocument[], prompt: string): Pick<GenerateRequest, "attachments" | "prompt"> => ({
+  attachments: syllabusAttachments(syllabus),
+  prompt: [
+    ...syllabus
+      .filter(d => d.text !== undefined)
+      .map(d => `--- SYLLABUS DOCUMENT: ${d.name} ---\n${d.text}\n--- END OF ${d.name} ---`),
+    prompt
+  ].join("\n\n")
+});
+
+export const parseSyllabus = async (syllabus: SyllabusDocument[]): Promise<CourseStructure> => {
+  const today = new Date().toISOString().slice(0, 10);
+  // Use the fast tier for structural extraction
+  return generateValidated({
+    task: "syllabus",
+    tier: "fast",
+    ...withSyllabus(syllabus, `Analyze this syllabus. Extract the course structure into a strictly formatted JSON object. 
+          The structure must include a course title, a brief description, and a list of modules. 
+          Each module must have a title, a list of specific topics, and learning objectives.
+          If the syllabus gives a schedule, also set each module's week number and its start and end dates.
+          List every graded assessment (exams, quizzes, assignments, projects) with its type, due date,
+          weight as a percentage of the final grade, and the ids of the modules it covers.
+          Write dates as YYYY-MM-DD; if the syllabus leaves out the year, assume the next such date after ${today}.
+          Leave out any date or weight the syllabus does not state. Never invent them.`),
+    // Removed high thinking budget to prevent timeouts
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+        description: { type: Type.STRING },
+        modules: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING },
+              title: { type: Type.STRING },
+              topics: { type: Type.ARRAY, items: { type: Type.STRING } },
+              learningObjectives: { type: Type.ARRAY, items: { type: Type.STRING } },
+              week: { type: Type.INTEGER },
+              startDate: { type: Type.STRING },
+              endDate: { type: Type.STRING }
+            }
           }
         },
-        {
-          text: `Analyze this syllabus PDF. Extract the course structure into a strictly formatted JSON object. 
-          The structure must include a course title, a brief description, and a list of modules. 
-          Each module must have a title, a list of specific topics, and learning objectives.`
-        }
-      ]
-    },
-    config: {
-      // Removed high thinking budget to prevent timeouts
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING },
-          description: { type: Type.STRING },
-          modules: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                id: { type: Type.STRING },
-                title: { type: Type.STRING },
-                topics: { type: Type.ARRAY, items: { type: Type.STRING } },
-                learningObjectives: { type: Type.ARRAY, items: { type: Type.STRING } }
-              }
+        assessments: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING },
+              title: { type: Type.STRING },
+              type: { type: Type.STRING, enum: ["exam", "quiz", "assignment", "project", "other"] },
+              dueDate: { type: Type.STRING },
+              weight: { type: Type.NUMBER },
+              moduleIds: { type: Type.ARRAY, items: { type: Type.STRING } }
             }
           }
         }
       }
     }
-  });
-
-  const parsed = safeParseJSON(response.text);
-  
-  if (!parsed) {
-      throw new Error("Failed to parse syllabus structure. The response might be incomplete or invalid.");
-  }
-  
-  // Robustness check
-  return {
-    title: parsed.title || "Untitled Course",
-    description: parsed.description || "",
-    modules: Array.isArray(parsed.modules) ? parsed.modules : []
-  } as CourseStructure;
+  }, validateCourseStructure, "a course structure");
 };
 
-export const generateLessonContent = async (
-  syllabusBase64: string,
+const buildLessonRequest = (
+  syllabus: SyllabusDocument[],
   moduleTitle: string,
   topics: string[],
-  depth: ContentDepth
-): Promise<string> => {
+  depth: ContentDepth,
+  signal?: AbortSignal
+): GenerateRequest => {
   // Use Pro for Deep Dive, Flash for others for speed
   const isDeepDive = depth === ContentDepth.DEEP_DIVE;
-  const modelId = isDeepDive ? "gemini-3-pro-preview" : "gemini-3-flash-preview";
 
   let depthInstruction = "";
-  let thinkingConfig = undefined;
+  let thinkingBudget: number | undefined = undefined;
 
   switch (depth) {
     case ContentDepth.SUMMARY:
@@ -116,7 +160,7 @@ export const generateLessonContent = async (
     case ContentDepth.DEEP_DIVE:
       depthInstruction = "Provide an academic deep dive. Expand on every point with rigorous detail, examples, analogies, and theoretical background. Cite concepts where appropriate.";
       // Enable thinking for deep dive
-      thinkingConfig = { thinkingBudget: 8192 }; 
+      thinkingBudget = 8192;
       break;
     case ContentDepth.STANDARD:
     default:
@@ -124,18 +168,10 @@ export const generateLessonContent = async (
       break;
   }
 
-  const response = await ai.models.generateContent({
-    model: modelId,
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            mimeType: "application/pdf",
-            data: syllabusBase64
-          }
-        },
-        {
-          text: `You are an expert tutor. Create a lesson content for the module: "${moduleTitle}".
+  return {
+    task: "lesson",
+    tier: isDeepDive ? "pro" : "fast",
+    ...withSyllabus(syllabus, `You are an expert tutor. Create a lesson content for the module: "${moduleTitle}".
           Focus on these topics: ${topics.join(", ")}.
           
           STYLE GUIDE:
@@ -143,159 +179,601 @@ export const generateLessonContent = async (
           - Be encouraging but academic.
           - ${depthInstruction}
           
-          Based ONLY on the context of the provided syllabus, but you may expand with general knowledge to explain concepts better.`
+          Based ONLY on the context of the provided syllabus, but you may expand with general knowledge to explain concepts better.`),
+    thinkingBudget,
+    params: { moduleTitle, topics, depth },
+    signal
+  };
+};
+
+export const generateLessonContent = async (
+  syllabus: SyllabusDocument[],
+  moduleTitle: string,
+  topics: string[],
+  depth: ContentDepth,
+  signal?: AbortSignal
+): Promise<string> => {
+  const text = await provider.generate(buildLessonRequest(syllabus, moduleTitle, topics, depth, signal));
+  return text || "Failed to generate content.";
+};
+
+// Yields the lesson Markdown accumulated so far each time a chunk arrives
+export async function* streamLessonContent(
+  syllabus: SyllabusDocument[],
+  moduleTitle: string,
+  topics: string[],
+  depth: ContentDepth,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  let text = "";
+  for await (const chunk of provider.generateStream(buildLessonRequest(syllabus, moduleTitle, topics, depth, signal))) {
+    text += chunk;
+    yield text;
+  }
+}
+
+const KNOWLEDGE_GRAPH_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        nodes: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    id: { type: Type.STRING },
+                    label: { type: Type.STRING },
+                    group: { type: Type.INTEGER },
+                    status: { type: Type.STRING, enum: ["locked", "available", "completed"] },
+                    moduleId: { type: Type.STRING },
+                    topic: { type: Type.STRING }
+                }
+            }
+        },
+        links: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    source: { type: Type.STRING },
+                    target: { type: Type.STRING },
+                    value: { type: Type.NUMBER }
+                }
+            }
         }
-      ]
-    },
-    config: {
-        thinkingConfig
     }
-  });
+};
+
+const describeModulesForGraph = (modules: CourseModule[]) =>
+    modules
+        .map(m => `- id "${m.id}" (${m.title}): topics [${m.topics.join("; ")}]`)
+        .join("\n                    ");
+
+export const generateKnowledgeGraph = async (
+    syllabus: SyllabusDocument[],
+    structure: CourseStructure
+): Promise<KnowledgeGraphData> => {
+    return generateValidated({
+        task: "graph",
+        tier: "fast",
+        ...withSyllabus(syllabus, `Generate a knowledge graph representation of this course. 
+                Identify key concepts (nodes) and their dependencies (links). 
+                If Concept B requires Concept A, create a link from A to B.
+                For every concept, set "moduleId" to the id of the module that teaches it and "topic" to the matching topic, copied verbatim from this list:
+                ${describeModulesForGraph(structure.modules)}
+                Return JSON.`),
+        responseSchema: KNOWLEDGE_GRAPH_SCHEMA
+    }, parsed => validateKnowledgeGraph(parsed, structure), "a knowledge graph");
+}
+
+// After an outline edit: concepts of the changed modules are regenerated and linked into the rest of the
+// graph, which is kept as it was. Concepts of modules that no longer exist are dropped.
+export const updateKnowledgeGraph = async (
+    syllabus: SyllabusDocument[],
+    structure: CourseStructure,
+    graph: KnowledgeGraphData,
+    changedModuleIds: string[]
+): Promise<KnowledgeGraphData> => {
+    const moduleIds = new Set(structure.modules.map(m => m.id));
+    // Concepts saved without a moduleId cannot be traced to a module, so they are kept
+    const keptNodes = graph.nodes.filter(n => !n.moduleId || (moduleIds.has(n.moduleId) && !changedModuleIds.includes(n.moduleId)));
+    const keptIds = new Set(keptNodes.map(n => n.id));
+    const kept: KnowledgeGraphData = {
+        nodes: keptNodes,
+        links: graph.links.filter(l => keptIds.has(l.source) && keptIds.has(l.target))
+    };
+    const changed = structure.modules.filter(m => changedModuleIds.includes(m.id));
+    if (!changed.length) return kept;
+
+    const existingConcepts = keptNodes
+        .map(n => `- id "${n.id}": ${n.label}`)
+        .join("\n                ");
+
+    return generateValidated({
+        task: "graph",
+        tier: "fast",
+        ...withSyllabus(syllabus, `The outline of this course was edited. Identify the key concepts (nodes) taught by these modules only, and their dependencies (links).
+                If Concept B requires Concept A, create a link from A to B.
+                For every concept, set "moduleId" to the id of the module that teaches it and "topic" to the matching topic, copied verbatim from this list:
+                ${describeModulesForGraph(changed)}
+                These concepts from the rest of the course already exist. Do not repeat them, but link to them by id wherever a new concept depends on one or one depends on a new concept:
+                ${existingConcepts || "(none)"}
+                Return JSON.`),
+        responseSchema: KNOWLEDGE_GRAPH_SCHEMA
+    }, parsed => validateKnowledgeGraph({
+        nodes: [...kept.nodes, ...(Array.isArray(parsed?.nodes) ? parsed.nodes : [])],
+        links: [...kept.links, ...(Array.isArray(parsed?.links) ? parsed.links : [])]
+    }, structure), "a knowledge graph");
+}
 
-  return response.text || "Failed to generate content.";
+const QUESTION_TYPE_INSTRUCTIONS: Record<QuestionType, string> = {
+    single: `"single": one correct option out of 4; set correctAnswerIndex.`,
+    multi: `"multi": 4-6 options with two or more correct; set correctAnswerIndices.`,
+    true_false: `"true_false": options exactly ["True", "False"]; set correctAnswerIndex.`,
+    short_answer: `"short_answer": no options; set correctAnswerText to a concise model answer.`,
+    numeric: `"numeric": no options; set numericAnswer and a tolerance (0 for exact answers).`
 };
 
-export const generateKnowledgeGraph = async (syllabusBase64: string): Promise<KnowledgeGraphData> => {
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-3-flash-preview",
-            contents: {
-                parts: [
-                    { inlineData: { mimeType: "application/pdf", data: syllabusBase64 } },
-                    { text: `Generate a knowledge graph representation of this course. 
-                    Identify key concepts (nodes) and their dependencies (links). 
-                    If Concept B requires Concept A, create a link from A to B.
-                    Return JSON.` }
-                ]
-            },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        nodes: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    id: { type: Type.STRING },
-                                    label: { type: Type.STRING },
-                                    group: { type: Type.INTEGER },
-                                    status: { type: Type.STRING, enum: ["locked", "available", "completed"] }
-                                }
-                            }
-                        },
-                        links: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    source: { type: Type.STRING },
-                                    target: { type: Type.STRING },
-                                    value: { type: Type.NUMBER }
-                                }
-                            }
-                        }
-                    }
+const EXAM_QUESTIONS_SCHEMA = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.INTEGER },
+            type: { type: Type.STRING, enum: ["single", "multi", "true_false", "short_answer", "numeric"] },
+            question: { type: Type.STRING },
+            options: { type: Type.ARRAY, items: { type: Type.STRING } },
+            correctAnswerIndex: { type: Type.INTEGER },
+            correctAnswerIndices: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+            correctAnswerText: { type: Type.STRING },
+            numericAnswer: { type: Type.NUMBER },
+            tolerance: { type: Type.NUMBER },
+            explanation: { type: Type.STRING },
+            moduleId: { type: Type.STRING },
+            topic: { type: Type.STRING },
+            learningObjective: { type: Type.STRING }
+        }
+    }
+};
+
+export const generateExam = async (
+    syllabus: SyllabusDocument[],
+    modules: CourseModule[],
+    config: ExamConfig,
+    signal?: AbortSignal
+): Promise<ExamQuestion[]> => {
+    const moduleList = modules.map(m => `"${m.title}"`).join(", ");
+    const moduleDetails = modules
+        .map(m => `- id "${m.id}": topics [${m.topics.join("; ")}], learning objectives [${m.learningObjectives.join("; ")}]`)
+        .join("\n                    ");
+    const topicInstruction = config.topics.length
+        ? `Only cover these topics: ${config.topics.join(", ")}.`
+        : `Cover these topics: ${modules.flatMap(m => m.topics).join(", ")}.`;
+
+    return generateValidated({
+        task: "exam",
+        tier: "pro",
+        ...withSyllabus(syllabus, `Generate a ${config.questionCount}-question exam of ${config.difficulty} difficulty for the module(s): ${moduleList}.
+                ${topicInstruction}
+                Mix these question types, setting "type" on each question:
+                ${config.questionTypes.map(t => `- ${QUESTION_TYPE_INSTRUCTIONS[t]}`).join("\n                    ")}
+                Ensure questions test understanding, not just recall.
+                Tag every question with what it tests: "moduleId", plus "topic" and "learningObjective" copied verbatim from that module:
+                ${moduleDetails}
+                Number the questions from 1 in "id". Return strictly JSON.`),
+        thinkingBudget: 4096,
+        responseSchema: EXAM_QUESTIONS_SCHEMA,
+        params: {
+            moduleTitle: moduleList,
+            questionCount: config.questionCount,
+            questionTypes: config.questionTypes,
+            moduleIds: modules.map(m => m.id),
+            topics: config.topics.length ? config.topics : modules.flatMap(m => m.topics),
+            moduleTopics: Object.fromEntries(modules.map(m => [
+                m.id,
+                config.topics.length ? m.topics.filter(t => config.topics.includes(t)) : m.topics
+            ]))
+        },
+        signal
+    }, parsed => validateExamQuestions(parsed, modules), "exam questions");
+}
+
+// Short answers are graded by the model against the stored model answer
+export const gradeShortAnswers = async (
+    items: { question: string; modelAnswer: string; studentAnswer: string }[]
+): Promise<{ correct: boolean; score: number; feedback: string }[]> => {
+    if (!items.length) return [];
+
+    const text = await provider.generate({
+        task: "grading",
+        tier: "fast",
+        prompt: `You are grading a student's short answers. For each item, compare the student answer with the model answer.
+                Accept answers that express the same idea in different words. Give partial credit (score between 0 and 1) for partially correct answers.
+                Feedback is one sentence addressed to the student.
+                Return a JSON array with one entry per item, in the same order.
+
+                ${items.map((item, i) => `Item ${i + 1}
+                Question: ${item.question}
+                Model answer: ${item.modelAnswer}
+                Student answer: ${item.studentAnswer}`).join("\n\n")}`,
+        responseSchema: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    correct: { type: Type.BOOLEAN },
+                    score: { type: Type.NUMBER },
+                    feedback: { type: Type.STRING }
                 }
             }
-        });
+        },
+        params: { items }
+    });
 
-        const parsed = safeParseJSON(response.text) || {};
-        return {
-            nodes: Array.isArray(parsed.nodes) ? parsed.nodes : [],
-            links: Array.isArray(parsed.links) ? parsed.links : []
-        };
-    } catch (e) {
-        console.warn("Knowledge graph generation failed:", e);
-        return { nodes: [], links: [] };
+    const parsed = safeParseJSON(text);
+    if (!Array.isArray(parsed) || parsed.length !== items.length) {
+        throw new InvalidOutputError("The grader returned an unexpected response.");
     }
+    return parsed.map((r: any) => ({
+        correct: !!r.correct,
+        score: Math.min(1, Math.max(0, Number(r.score) || 0)),
+        feedback: String(r.feedback || "")
+    }));
 }
 
-export const generateExam = async (syllabusBase64: string, moduleTitle: string): Promise<ExamQuestion[]> => {
+export const gradeExam = async (
+    questions: ExamQuestion[],
+    answers: Record<number, ExamAnswer>
+): Promise<QuestionResult[]> => {
+    const shortAnswers = questions.filter(q => q.type === "short_answer");
+    let graded: { correct: boolean; score: number; feedback: string }[];
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-3-pro-preview",
-            contents: {
-                parts: [
-                    { inlineData: { mimeType: "application/pdf", data: syllabusBase64 } },
-                    { text: `Generate a 5-question multiple choice exam for the module: "${moduleTitle}".
-                    Ensure questions test understanding, not just recall.
-                    Return strictly JSON.` }
-                ]
-            },
-            config: {
-                thinkingConfig: { thinkingBudget: 4096 },
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            id: { type: Type.INTEGER },
-                            question: { type: Type.STRING },
-                            options: { type: Type.ARRAY, items: { type: Type.STRING } },
-                            correctAnswerIndex: { type: Type.INTEGER },
-                            explanation: { type: Type.STRING }
-                        }
-                    }
+        graded = await gradeShortAnswers(shortAnswers.map(q => ({
+            question: q.question,
+            modelAnswer: q.correctAnswerText || q.explanation,
+            studentAnswer: String(answers[q.id] ?? "")
+        })));
+    } catch (e) {
+        console.error("Short answer grading failed:", e);
+        graded = shortAnswers.map(() => ({
+            correct: false,
+            score: 0,
+            feedback: "This answer could not be graded automatically. Compare it with the model answer."
+        }));
+    }
+
+    return questions.map(q => {
+        const index = shortAnswers.indexOf(q);
+        return index === -1
+            ? gradeObjectiveQuestion(q, answers[q.id])
+            : { questionId: q.id, ...graded[index] };
+    });
+}
+
+// A short lesson that only covers what the learner got wrong, using their mistakes as the starting point
+export const generateRemediationLesson = async (
+    syllabus: SyllabusDocument[],
+    weakSpots: WeakSpot[]
+): Promise<string> => {
+    const details = weakSpots.map(spot => `Topic: ${spot.topic}
+                Learning objectives: ${spot.learningObjectives.join("; ") || "n/a"}
+                Questions the student got wrong:
+                ${spot.missedQuestions.map(q => `- ${q.question} (Explanation: ${q.explanation})`).join("\n                ")}`).join("\n\n                ");
+
+    const text = await provider.generate({
+        task: "remediation",
+        tier: "fast",
+        ...withSyllabus(syllabus, `You are an expert tutor. A student just took an exam and struggled with the topics below.
+                Write a targeted remediation lesson that covers ONLY these topics.
+                For each topic: explain the misconception behind the missed questions, re-teach the idea clearly with a worked example, and end with a one-line self-check.
+
+                ${details}
+
+                STYLE GUIDE:
+                - Use Markdown formatting (Headers, Bold, Lists).
+                - Be encouraging but academic.
+                - Do not reveal new exam questions.`),
+        params: { topics: weakSpots.map(s => s.topic) }
+    });
+
+    return text || "Failed to generate content.";
+}
+
+export const generateFlashcards = async (module: CourseModule): Promise<{ term: string; definition: string }[]> => {
+    const text = await provider.generate({
+        task: "flashcards",
+        tier: "fast",
+        prompt: `Create study flashcards for the module "${module.title}".
+                Topics: ${module.topics.join(", ")}.
+                Learning objectives: ${module.learningObjectives.join("; ")}.
+                Each card has a short term (a concept, formula or name) and a one or two sentence definition.
+                Cover every topic. Avoid duplicates. Return strictly JSON.`,
+        responseSchema: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    term: { type: Type.STRING },
+                    definition: { type: Type.STRING }
                 }
             }
-        });
-        
-        const parsed = safeParseJSON(response.text) || [];
-        return Array.isArray(parsed) ? parsed : [];
-    } catch (e) {
-        console.error("Exam generation failed:", e);
-        return [];
+        },
+        params: { moduleTitle: module.title, topics: module.topics, learningObjectives: module.learningObjectives }
+    });
+
+    const parsed = safeParseJSON(text);
+    if (!Array.isArray(parsed)) {
+        throw new InvalidOutputError("The AI service returned flashcards that could not be used. Try again.");
     }
+    return parsed.filter(c => c && c.term && c.definition);
 }
 
-export const generateAudioLesson = async (textToSpeak: string): Promise<string | undefined> => {
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: textToSpeak }] }],
-        config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-                voiceConfig: {
-                    prebuiltVoiceConfig: { voiceName: 'Puck' },
-                },
-            },
+// One card for a passage the learner selected in a lesson
+export const generatePassageFlashcard = async (
+    module: CourseModule,
+    passage: string
+): Promise<{ term: string; definition: string }> => {
+    const text = await provider.generate({
+        task: "flashcards",
+        tier: "fast",
+        prompt: `Create one study flashcard for this passage from the module "${module.title}":
+                "${passage}"
+                The term is the concept, formula or name the passage is about; the definition explains it in one or two sentences.
+                Return strictly JSON: an array with exactly one card.`,
+        responseSchema: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    term: { type: Type.STRING },
+                    definition: { type: Type.STRING }
+                }
+            }
         },
+        params: { moduleTitle: module.title, topics: [passage.slice(0, 80)], learningObjectives: [] }
     });
 
-    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    const card = (safeParseJSON(text) || [])[0];
+    if (!card?.term || !card?.definition) {
+        throw new InvalidOutputError("The AI service returned a flashcard that could not be used. Try again.");
+    }
+    return { term: String(card.term), definition: String(card.definition) };
+}
+
+// Whether the selected provider can read lessons aloud at all
+export const canSynthesizeSpeech = provider.canSynthesizeSpeech;
+
+export const generateAudioLesson = async (textToSpeak: string, options?: SpeechOptions): Promise<string | undefined> => {
+    return provider.synthesizeSpeech(textToSpeak, options);
+}
+
+// Vectors for course retrieval, or undefined when the provider has no embedding model
+export const embedTexts = (texts: string[], signal?: AbortSignal): Promise<number[][] | undefined> =>
+    provider.embed(texts, signal);
+
+// Rewrites a lesson as a conversation between a tutor and a curious student, for two-voice audio
+export const generateDialogueScript = async (
+    module: CourseModule,
+    lesson: string,
+    signal?: AbortSignal
+): Promise<DialogueLine[]> => {
+    return generateValidated({
+        task: "dialogue",
+        tier: "fast",
+        prompt: `Turn the lesson below into a podcast-style conversation between a Tutor and a Student about the module "${module.title}".
+                The Student asks the questions a learner would really have, including one common misconception; the Tutor explains with examples and checks understanding.
+                Cover every important point of the lesson in the same order. Keep each turn to a few spoken sentences; no Markdown, lists or code.
+                For every turn set "topic" to the module topic it is about, copied verbatim from: ${module.topics.join("; ")}.
+                Return strictly JSON.
+
+                --- LESSON ---
+                ${lesson}
+                --- END OF LESSON ---`,
+        responseSchema: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    speaker: { type: Type.STRING, enum: ["Tutor", "Student"] },
+                    text: { type: Type.STRING },
+                    topic: { type: Type.STRING }
+                }
+            }
+        },
+        params: { moduleTitle: module.title, topics: module.topics },
+        signal
+    }, parsed => validateDialogue(parsed, module.topics), "a dialogue script");
+}
+
+// What the Sidekick knows when it answers: the module on screen and the course passages retrieved for the question
+export interface SidekickContext {
+    moduleTitle?: string;
+    passages: Passage[];
+    // Syllabus files the index cannot search (PDFs have no local text), sent whole so the model reads them itself
+    documents?: SyllabusDocument[];
 }
 
+const formatPassages = (passages: Passage[]): string =>
+    passages.length
+        ? passages.map((p, i) => `[${i + 1}] (${p.source.label})\n${p.text}`).join("\n\n")
+        : "(No course material matched this question.)";
+
+const buildSidekickRequest = (
+    history: {role: string, parts: {text: string}[]}[],
+    message: string,
+    context: SidekickContext,
+    imagePart?: string
+): GenerateRequest => ({
+    task: "chat",
+    tier: "fast",
+    history,
+    prompt: message,
+    attachments: [
+        ...syllabusAttachments(context.documents || []),
+        ...(imagePart ? [{ mimeType: "image/jpeg", data: imagePart }] : [])
+    ],
+    params: { passageCount: context.passages.length },
+    systemInstruction: `You are a helpful, academic 'Sidekick' tutor.
+            The user is currently studying ${context.moduleTitle ? `the module "${context.moduleTitle}"` : "the course overview"}.
+            These numbered passages from the syllabus and the course lessons were selected for their question:
+            ---
+            ${formatPassages(context.passages)}
+            ---${context.documents?.length ? `
+            The attached syllabus ${context.documents.length === 1 ? "document is" : "documents are"} part of the course material too.` : ""}
+            Answer their questions based on these passages, which may come from any module of the course.
+            Cite the passages you use by number in square brackets, e.g. [2] or [1, 3], right after the sentence that uses them.
+            If the passages do not cover the question, say so before answering from general knowledge.
+            If they upload an image, analyze it in the context of the course.`
+});
+
 export const chatWithSidekick = async (
     history: {role: string, parts: {text: string}[]}[],
     message: string,
-    context: string,
+    context: SidekickContext,
     imagePart?: string
 ): Promise<string> => {
-    const chat = ai.chats.create({
-        model: "gemini-3-flash-preview",
-        history: history,
-        config: {
-            systemInstruction: `You are a helpful, academic 'Sidekick' tutor. 
-            The user is currently studying this content: --- ${context.substring(0, 5000)}... --- 
-            Answer their questions based on this context. 
-            If they ask to "Quiz me", generate 3 brief questions.
-            If they upload an image, analyze it in the context of the course.`
-        }
-    });
+    const text = await provider.generate(buildSidekickRequest(history, message, context, imagePart));
+    return text || "I couldn't understand that.";
+}
 
-    const parts: any[] = [{ text: message }];
-    if (imagePart) {
-        parts.push({
-            inlineData: {
-                mimeType: "image/jpeg",
-                data: imagePart
+// Yields the reply accumulated so far each time a chunk arrives
+export async function* streamChatWithSidekick(
+    history: {role: string, parts: {text: string}[]}[],
+    message: string,
+    context: SidekickContext,
+    imagePart?: string
+): AsyncGenerator<string> {
+    let text = "";
+    for await (const chunk of provider.generateStream(buildSidekickRequest(history, message, context, imagePart))) {
+        text += chunk;
+        yield text;
+    }
+}
+
+// Push-to-talk: the model hears the recording directly, so it transcribes and answers in one request
+export const voiceChatWithSidekick = async (
+    history: {role: string, parts: {text: string}[]}[],
+    recording: { mimeType: string; data: string },
+    context: SidekickContext,
+    signal?: AbortSignal
+): Promise<{ transcript: string; reply: string }> => {
+    const text = await provider.generate({
+        ...buildSidekickRequest(history, `The attached audio is the student speaking to you.
+            Transcribe what they said, then answer it. The answer will be read aloud, so keep it conversational and short:
+            plain sentences, no Markdown, tables or code. If they are practising an oral answer, give feedback on its content.`, context),
+        task: "voiceChat",
+        attachments: [...syllabusAttachments(context.documents || []), recording],
+        responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+                transcript: { type: Type.STRING },
+                reply: { type: Type.STRING }
             }
-        });
+        },
+        signal
+    });
+
+    const parsed = safeParseJSON(text);
+    if (!parsed?.reply) {
+        throw new InvalidOutputError("The Sidekick could not make sense of that recording. Try again.");
     }
+    return { transcript: String(parsed.transcript || "").trim(), reply: String(parsed.reply) };
+}
+
+// Folds older turns of a long conversation into a running summary, so the history sent with each message stays small
+export const summarizeConversation = async (
+    previousSummary: string | undefined,
+    messages: Message[],
+    signal?: AbortSignal
+): Promise<string> => {
+    const transcript = messages
+        .map(m => `${m.role === 'user' ? 'Student' : 'Sidekick'}: ${messageText(m)}`)
+        .join("\n\n");
+    const text = await provider.generate({
+        task: "chatSummary",
+        tier: "fast",
+        prompt: `Summarize this tutoring conversation so the tutor can continue it without the full transcript.
+                Keep what the student asked, what was explained, misconceptions they showed and anything they said they would do next.
+                Write at most 150 words of plain prose.
+                ${previousSummary ? `\n                Summary of the conversation before this part:\n                ${previousSummary}\n` : ""}
+                --- CONVERSATION ---
+                ${transcript}
+                --- END OF CONVERSATION ---`,
+        params: { questions: messages.filter(m => m.role === 'user').map(m => m.content) },
+        signal
+    });
+    if (!text) throw new InvalidOutputError("The AI service returned an empty conversation summary.");
+    return text.trim();
+}
+
+export const CHAT_QUIZ_LENGTH = 3;
+const CHAT_QUIZ_TYPES: QuestionType[] = ["single", "true_false", "short_answer"];
 
-    const result = await chat.sendMessage({ parts });
-    return result.response.text || "I couldn't understand that.";
-}
\ No newline at end of file
+// A short active-recall quiz in the Sidekick panel, on what the student has just been discussing
+export const generateChatQuiz = async (
+    modules: CourseModule[],
+    context: SidekickContext,
+    recentQuestions: string[],
+    signal?: AbortSignal
+): Promise<ExamQuestion[]> => {
+    const moduleDetails = modules
+        .map(m => `- id "${m.id}" ("${m.title}"): topics [${m.topics.join("; ")}], learning objectives [${m.learningObjectives.join("; ")}]`)
+        .join("\n                ");
+
+    return generateValidated({
+        task: "chatQuiz",
+        tier: "fast",
+        prompt: `Write ${CHAT_QUIZ_LENGTH} brief questions to check the student's understanding${
+                    recentQuestions.length ? `, focusing on what they just asked about:\n                ${recentQuestions.map(q => `- ${q}`).join("\n                ")}` : "."}
+                Use these question types, setting "type" on each question:
+                ${CHAT_QUIZ_TYPES.map(t => `- ${QUESTION_TYPE_INSTRUCTIONS[t]}`).join("\n                ")}
+                Base the questions on these course passages${context.documents?.length ? " and the attached syllabus" : ""}:
+                ---
+                ${formatPassages(context.passages)}
+                ---
+                Tag every question with "moduleId", plus "topic" and "learningObjective" copied verbatim from one of these modules:
+                ${moduleDetails}
+                Number the questions from 1 in "id". Return strictly JSON.`,
+        attachments: syllabusAttachments(context.documents || []),
+        responseSchema: EXAM_QUESTIONS_SCHEMA,
+        params: {
+            moduleTitle: modules.map(m => m.title).join(", "),
+            questionCount: CHAT_QUIZ_LENGTH,
+            questionTypes: CHAT_QUIZ_TYPES,
+            moduleIds: modules.map(m => m.id),
+            topics: modules.flatMap(m => m.topics),
+            moduleTopics: Object.fromEntries(modules.map(m => [m.id, m.topics]))
+        },
+        signal
+    }, parsed => validateExamQuestions(parsed, modules), "quiz questions");
+}
+
+const EXPLANATION_INSTRUCTIONS: Record<ExplanationStyle, string> = {
+    eli5: "Explain it as you would to a curious 10-year-old: plain words, no jargon, two or three sentences.",
+    definition: "Give a precise, formal definition as a textbook would, naming any terms it depends on.",
+    example: "Give one concrete worked example that shows the idea in action.",
+    analogy: "Give one analogy from everyday life and say where the analogy breaks down.",
+    translate: "Translate it faithfully, keeping technical terms accurate, then add a one-line gloss of any term with no direct equivalent."
+};
+
+// A short explanation of a passage the learner selected, shown as an annotation next to it in the lesson
+export const explainPassage = async (
+    module: CourseModule,
+    passage: string,
+    style: ExplanationStyle,
+    language?: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    const text = await provider.generate({
+        task: "explain",
+        tier: "fast",
+        prompt: `A student reading the lesson "${module.title}" selected this passage:
+                "${passage}"
+                ${style === "translate" ? `Translate the passage into ${language}.` : "Help them understand it."}
+                ${EXPLANATION_INSTRUCTIONS[style]}
+                Keep it under 120 words. Use Markdown sparingly (bold, short lists); no headings.`,
+        params: { passage, style, language },
+        signal
+    });
+    if (!text) throw new InvalidOutputError("The AI service returned an empty explanation. Try again.");
+    return text.trim();
+}
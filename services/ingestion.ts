@@ -0,0 +1,123 @@
+import { SyllabusDocument } from "../types";
+import { fileToGenerativePart } from "./geminiService";
+import { readZipEntry } from "../utils/zip";
+
+// Thrown for files we cannot turn into a syllabus; the message is safe to show to the user
+export class SyllabusIngestionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyllabusIngestionError";
+  }
+}
+
+export type SyllabusFormat = "pdf" | "docx" | "markdown" | "html" | "text";
+
+// Formats the file picker offers; the model reads PDFs natively, everything else is converted to text here
+export const SUPPORTED_SYLLABUS_TYPES = ".pdf,.docx,.md,.markdown,.html,.htm,.txt";
+
+const EXTENSION_FORMATS: Record<string, SyllabusFormat> = {
+  pdf: "pdf",
+  docx: "docx",
+  md: "markdown",
+  markdown: "markdown",
+  html: "html",
+  htm: "html",
+  txt: "text"
+};
+
+const MIME_FORMATS: Record<string, SyllabusFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "text/markdown": "markdown",
+  "text/html": "html",
+  "text/plain": "text"
+};
+
+export const detectSyllabusFormat = (file: File): SyllabusFormat | null => {
+  const extension = file.name.split(".").pop()?.toLowerCase() || "";
+  return EXTENSION_FORMATS[extension] || MIME_FORMATS[file.type] || null;
+};
+
+const BLOCK_TAGS = new Set(["P", "DIV", "SECTION", "ARTICLE", "HEADER", "FOOTER", "TR", "BR", "TABLE", "UL", "OL"]);
+
+// Converts HTML to plain text, keeping headings and list items recognisable as Markdown
+const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  doc.querySelectorAll("script, style, noscript, nav").forEach(el => el.remove());
+
+  const out: string[] = [];
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      out.push((node.textContent || "").replace(/\s+/g, " "));
+      return;
+    }
+    if (!(node instanceof Element)) return;
+
+    const heading = /^H([1-6])$/.exec(node.tagName);
+    if (heading) out.push(`\n\n${"#".repeat(Number(heading[1]))} `);
+    else if (node.tagName === "LI") out.push("\n- ");
+    else if (node.tagName === "TD" || node.tagName === "TH") out.push(" | ");
+    else if (BLOCK_TAGS.has(node.tagName)) out.push("\n");
+
+    node.childNodes.forEach(walk);
+
+    if (heading || BLOCK_TAGS.has(node.tagName)) out.push("\n");
+  };
+  walk(doc.body);
+
+  return out.join("").replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+};
+
+const WORD_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+// Reads word/document.xml out of the .docx and flattens paragraphs, headings and list items to Markdown-ish text
+const docxToText = async (buffer: ArrayBuffer): Promise<string> => {
+  const xml = await readZipEntry(buffer, "word/document.xml");
+  if (!xml) throw new SyllabusIngestionError("This Word file has no document body.");
+
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(xml), "application/xml");
+  const paragraphs = Array.from(doc.getElementsByTagNameNS(WORD_NS, "p"));
+
+  return paragraphs
+    .map(p => {
+      const text = Array.from(p.getElementsByTagNameNS(WORD_NS, "*"))
+        .map(el => (el.localName === "t" ? el.textContent || "" : el.localName === "tab" ? "\t" : ""))
+        .join("");
+      if (!text.trim()) return "";
+
+      const style = p.getElementsByTagNameNS(WORD_NS, "pStyle")[0]?.getAttributeNS(WORD_NS, "val") || "";
+      const heading = /^Heading(\d)$/i.exec(style);
+      if (heading) return `${"#".repeat(Number(heading[1]))} ${text}`;
+      if (p.getElementsByTagNameNS(WORD_NS, "numPr").length) return `- ${text}`;
+      return text;
+    })
+    .filter(Boolean)
+    .join("\n\n");
+};
+
+export const ingestSyllabusFile = async (file: File): Promise<SyllabusDocument> => {
+  const format = detectSyllabusFormat(file);
+
+  switch (format) {
+    case "pdf":
+      return { name: file.name, mimeType: "application/pdf", data: await fileToGenerativePart(file) };
+    case "docx":
+      return { name: file.name, mimeType: "text/markdown", text: await docxToText(await file.arrayBuffer()) };
+    case "html":
+      return { name: file.name, mimeType: "text/markdown", text: htmlToText(await file.text()) };
+    case "markdown":
+      return { name: file.name, mimeType: "text/markdown", text: await file.text() };
+    case "text":
+      return { name: file.name, mimeType: "text/plain", text: await file.text() };
+    default:
+      throw new SyllabusIngestionError(`"${file.name}" is not a supported syllabus format. Use PDF, Word (.docx), Markdown, HTML or plain text.`);
+  }
+};
+
+// Several files can make up one course (e.g. a syllabus plus a schedule page)
+export const ingestSyllabusFiles = async (files: File[]): Promise<SyllabusDocument[]> => {
+  const documents = await Promise.all(files.map(ingestSyllabusFile));
+  const empty = documents.find(d => d.text !== undefined && !d.text.trim());
+  if (empty) throw new SyllabusIngestionError(`No text could be extracted from "${empty.name}".`);
+  return documents;
+};
@@ -0,0 +1,60 @@
+import { ContentDepth, CourseModule, SyllabusDocument } from "../types";
+import { streamLessonContent } from "./geminiService";
+import { deleteCourseDialogues, deleteCourseLessons, deleteDialogue, deleteLesson, getLesson, lessonKey, saveLesson } from "./courseStore";
+
+// Lessons are keyed by syllabus hash (the course id), module id and depth.
+// The in-memory layer makes toggling between already-seen lessons instant; IndexedDB keeps them across reloads.
+const memory = new Map<string, string>();
+
+export interface LessonRequest {
+  courseId: string;
+  syllabus: SyllabusDocument[];
+  module: CourseModule;
+  depth: ContentDepth;
+  regenerate?: boolean;
+  signal?: AbortSignal;
+  // Called with the Markdown received so far while a lesson is being generated
+  onPartial?: (content: string) => void;
+}
+
+export const getOrGenerateLesson = async (request: LessonRequest): Promise<string> => {
+  const { courseId, syllabus, module, depth, regenerate, signal, onPartial } = request;
+  const key = lessonKey(courseId, module.id, depth);
+
+  if (!regenerate) {
+    const cached = memory.get(key) ?? (await getLesson(courseId, module.id, depth))?.content;
+    if (cached !== undefined) {
+      memory.set(key, cached);
+      return cached;
+    }
+  }
+
+  let content = "";
+  for await (const partial of streamLessonContent(syllabus, module.title, module.topics, depth, signal)) {
+    content = partial;
+    onPartial?.(partial);
+  }
+  // A cancelled or stopped request may still end cleanly on providers that ignore the signal; never cache it
+  signal?.throwIfAborted();
+  if (!content) throw new Error("The model returned an empty lesson.");
+
+  memory.set(key, content);
+  // A dialogue written from the previous version of this lesson no longer matches it
+  await Promise.all([saveLesson(courseId, module.id, depth, content), deleteDialogue(courseId, module.id, depth)]);
+  return content;
+};
+
+export const invalidateLesson = async (courseId: string, moduleId: string, depth?: ContentDepth): Promise<void> => {
+  const depths = depth ? [depth] : Object.values(ContentDepth);
+  await Promise.all(depths.map(d => {
+    memory.delete(lessonKey(courseId, moduleId, d));
+    return Promise.all([deleteLesson(courseId, moduleId, d), deleteDialogue(courseId, moduleId, d)]);
+  }));
+};
+
+export const invalidateCourseLessons = async (courseId: string): Promise<void> => {
+  Array.from(memory.keys())
+    .filter(key => key.startsWith(`${courseId}:`))
+    .forEach(key => memory.delete(key));
+  await Promise.all([deleteCourseLessons(courseId), deleteCourseDialogues(courseId)]);
+};
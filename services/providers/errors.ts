@@ -0,0 +1,86 @@
+// Every failure from a model call is surfaced as one of these; the message is safe to show to the user
+export type LLMErrorKind = "quota" | "safety" | "invalid_output" | "network" | "unsupported";
+
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  // Whether trying the same request again later can succeed
+  readonly retryable: boolean;
+
+  constructor(kind: LLMErrorKind, message: string, retryable: boolean, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "LLMError";
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+// Rate limits (HTTP 429) and exhausted daily quotas
+export class QuotaError extends LLMError {
+  constructor(message: string = "The AI service quota has been reached. Wait a minute and try again, or check your API plan's limits.", options?: { cause?: unknown }) {
+    super("quota", message, true, options);
+    this.name = "QuotaError";
+  }
+}
+
+// The prompt or the response was blocked by the provider's safety filters
+export class SafetyBlockError extends LLMError {
+  constructor(reason?: string, options?: { cause?: unknown }) {
+    super("safety", `The AI service declined to answer${reason ? ` (${reason})` : ""}. Try rephrasing or using different material.`, false, options);
+    this.name = "SafetyBlockError";
+  }
+}
+
+// The model answered, but not with something the app can use (see utils/validation.ts)
+export class InvalidOutputError extends LLMError {
+  readonly details: string[];
+
+  constructor(message: string, details: string[] = [], options?: { cause?: unknown }) {
+    super("invalid_output", message, true, options);
+    this.name = "InvalidOutputError";
+    this.details = details;
+  }
+}
+
+// Connection failures, timeouts and 5xx responses
+export class NetworkError extends LLMError {
+  readonly status?: number;
+
+  constructor(message: string = "Could not reach the AI service. Check your connection and try again.", status?: number, options?: { cause?: unknown }) {
+    super("network", message, true, options);
+    this.name = "NetworkError";
+    this.status = status;
+  }
+}
+
+// The selected backend has no model for this feature (e.g. no TTS); trying again cannot help
+export class UnsupportedFeatureError extends LLMError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super("unsupported", message, false, options);
+    this.name = "UnsupportedFeatureError";
+  }
+}
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === "AbortError";
+
+// Maps an HTTP status from any backend to the matching error; undefined for statuses that are plain bugs (e.g. 400)
+export const errorForStatus = (status: number, detail: string): LLMError | undefined => {
+  if (status === 429) return new QuotaError(undefined, { cause: detail });
+  if (status >= 500 || status === 408) {
+    return new NetworkError(`The AI service is temporarily unavailable (HTTP ${status}). Try again in a moment.`, status, { cause: detail });
+  }
+  return undefined;
+};
+
+// Normalizes whatever a provider SDK threw. Aborts and errors that are already typed pass through unchanged.
+export const toLLMError = (err: unknown): unknown => {
+  if (err instanceof LLMError || isAbortError(err)) return err;
+  const status = typeof (err as any)?.status === "number" ? (err as any).status : undefined;
+  const message = err instanceof Error ? err.message : String(err);
+
+  if (status !== undefined) return errorForStatus(status, message) || err;
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return new QuotaError(undefined, { cause: err });
+  // fetch rejects with a TypeError when the network is down or CORS fails
+  if (err instanceof TypeError && /fetch|network/i.test(message)) return new NetworkError(undefined, undefined, { cause: err });
+  return err;
+};
@@ -0,0 +1,100 @@
+import { FinishReason, GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Modality } from "@google/genai";
+import { GenerateRequest, LLMProvider, ModelTier, SpeechOptions } from "./types";
+import { SafetyBlockError } from "./errors";
+
+const MODELS: Record<ModelTier, string> = {
+  fast: "gemini-3-flash-preview",
+  pro: "gemini-3-pro-preview"
+};
+
+const DEFAULT_VOICE = "Puck";
+const EMBEDDING_MODEL = "gemini-embedding-001";
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII
+];
+
+// Blocked prompts and responses come back as empty text; report them instead
+const checkBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockError(String(blockReason).toLowerCase().replace(/_/g, " "));
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKED_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockError(String(finishReason).toLowerCase().replace(/_/g, " "));
+};
+
+const toGeminiParams = (request: GenerateRequest): GenerateContentParameters => {
+  const parts: any[] = (request.attachments || []).map(a => ({ inlineData: a }));
+  parts.push({ text: request.prompt });
+
+  return {
+    model: MODELS[request.tier],
+    contents: [...(request.history || []), { role: "user", parts }],
+    config: {
+      systemInstruction: request.systemInstruction,
+      thinkingConfig: request.thinkingBudget ? { thinkingBudget: request.thinkingBudget } : undefined,
+      responseMimeType: request.responseSchema ? "application/json" : undefined,
+      responseSchema: request.responseSchema,
+      abortSignal: request.signal
+    }
+  };
+};
+
+export const createGeminiProvider = (apiKey: string): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generate = async (request: GenerateRequest): Promise<string> => {
+    const response = await ai.models.generateContent(toGeminiParams(request));
+    checkBlocked(response);
+    return response.text || "";
+  };
+
+  async function* generateStream(request: GenerateRequest): AsyncGenerator<string> {
+    const stream = await ai.models.generateContentStream(toGeminiParams(request));
+    for await (const chunk of stream) {
+      checkBlocked(chunk);
+      if (chunk.text) yield chunk.text;
+    }
+  }
+
+  const synthesizeSpeech = async (text: string, options: SpeechOptions = {}): Promise<string | undefined> => {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash-preview-tts",
+      contents: [{ parts: [{ text }] }],
+      config: {
+        abortSignal: options.signal,
+        responseModalities: [Modality.AUDIO],
+        speechConfig: options.speakers?.length
+          ? {
+              multiSpeakerVoiceConfig: {
+                speakerVoiceConfigs: options.speakers.map(({ speaker, voice }) => ({
+                  speaker,
+                  voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+                })),
+              },
+            }
+          : {
+              voiceConfig: {
+                prebuiltVoiceConfig: { voiceName: options.voice || DEFAULT_VOICE },
+              },
+            },
+      },
+    });
+
+    checkBlocked(response);
+    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  };
+
+  const embed = async (texts: string[], signal?: AbortSignal): Promise<number[][] | undefined> => {
+    const response = await ai.models.embedContent({
+      model: EMBEDDING_MODEL,
+      contents: texts,
+      config: { abortSignal: signal }
+    });
+    return response.embeddings?.map(e => e.values || []);
+  };
+
+  return { name: "gemini", canSynthesizeSpeech: true, generate, generateStream, synthesizeSpeech, embed };
+};
@@ -0,0 +1,34 @@
+import { LLMProvider } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { withResilience } from "./resilientProvider";
+
+export * from "./types";
+export * from "./errors";
+
+// Picks the backend from LLM_PROVIDER (gemini | mock | openai) at startup
+const createBaseProvider = (): LLMProvider => {
+  const choice = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+
+  switch (choice) {
+    case "mock":
+      return createMockProvider();
+    case "openai":
+    case "ollama":
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.LLM_BASE_URL || "http://localhost:11434/v1",
+        model: process.env.LLM_MODEL || "llama3.1",
+        apiKey: process.env.LLM_API_KEY,
+        embeddingModel: process.env.LLM_EMBEDDING_MODEL
+      });
+    case "gemini":
+      return createGeminiProvider(process.env.API_KEY || "");
+    default:
+      console.warn(`Unknown LLM_PROVIDER "${choice}", falling back to Gemini.`);
+      return createGeminiProvider(process.env.API_KEY || "");
+  }
+};
+
+// Every backend gets the same timeouts, retries and typed errors
+export const createProvider = (): LLMProvider => withResilience(createBaseProvider());
@@ -0,0 +1,284 @@
+import { CourseStructure, ExamQuestion, KnowledgeGraphData, QuestionType } from "../../types";
+import { GenerateRequest, ProviderTask } from "./types";
+import { addDays, toIsoDate } from "../../utils/dates";
+
+// Deterministic responses for offline development and demos.
+// Each fixture returns exactly what the real model would: raw text or a JSON string.
+
+export const MOCK_COURSE: CourseStructure = {
+  title: "Introduction to Data Structures",
+  description: "A first course in organizing data for efficient access: arrays, linked lists, trees and graphs.",
+  modules: [
+    {
+      id: "m1",
+      title: "Arrays and Complexity",
+      topics: ["Big-O notation", "Static and dynamic arrays", "Amortized analysis"],
+      learningObjectives: ["Analyze the running time of simple algorithms", "Explain how dynamic arrays grow"]
+    },
+    {
+      id: "m2",
+      title: "Linked Lists, Stacks and Queues",
+      topics: ["Singly and doubly linked lists", "Stack operations", "Queue operations"],
+      learningObjectives: ["Implement a linked list", "Choose between a stack and a queue for a problem"]
+    },
+    {
+      id: "m3",
+      title: "Trees",
+      topics: ["Binary trees", "Binary search trees", "Tree traversals"],
+      learningObjectives: ["Traverse a tree in pre-, in- and post-order", "Insert into and search a BST"]
+    },
+    {
+      id: "m4",
+      title: "Graphs",
+      topics: ["Graph representations", "Breadth-first search", "Depth-first search"],
+      learningObjectives: ["Represent a graph as an adjacency list", "Find shortest paths in unweighted graphs"]
+    }
+  ]
+};
+
+export const MOCK_GRAPH: KnowledgeGraphData = {
+  nodes: [
+    { id: "complexity", group: 1, label: "Big-O", status: "available", moduleId: "m1", topic: "Big-O notation" },
+    { id: "arrays", group: 1, label: "Arrays", status: "available", moduleId: "m1", topic: "Static and dynamic arrays" },
+    { id: "lists", group: 2, label: "Linked Lists", status: "locked", moduleId: "m2", topic: "Singly and doubly linked lists" },
+    { id: "stacks", group: 2, label: "Stacks & Queues", status: "locked", moduleId: "m2", topic: "Stack operations" },
+    { id: "trees", group: 3, label: "Trees", status: "locked", moduleId: "m3", topic: "Binary trees" },
+    { id: "bst", group: 3, label: "Binary Search Trees", status: "locked", moduleId: "m3", topic: "Binary search trees" },
+    { id: "graphs", group: 4, label: "Graphs", status: "locked", moduleId: "m4", topic: "Graph representations" },
+    { id: "traversal", group: 4, label: "BFS & DFS", status: "locked", moduleId: "m4", topic: "Breadth-first search" }
+  ],
+  links: [
+    { source: "complexity", target: "arrays", value: 1 },
+    { source: "arrays", target: "lists", value: 1 },
+    { source: "lists", target: "stacks", value: 1 },
+    { source: "lists", target: "trees", value: 2 },
+    { source: "trees", target: "bst", value: 1 },
+    { source: "trees", target: "graphs", value: 2 },
+    { source: "stacks", target: "traversal", value: 1 },
+    { source: "graphs", target: "traversal", value: 1 }
+  ]
+};
+
+export const MOCK_EXAM: ExamQuestion[] = [
+  {
+    id: 1,
+    type: "single",
+    question: "What is the worst-case time to access the i-th element of an array?",
+    options: ["O(1)", "O(log n)", "O(n)", "O(n log n)"],
+    correctAnswerIndex: 0,
+    explanation: "Arrays store elements contiguously, so the address of any index is computed directly."
+  },
+  {
+    id: 2,
+    type: "single",
+    question: "Which structure gives last-in, first-out access?",
+    options: ["Queue", "Stack", "Heap", "Hash table"],
+    correctAnswerIndex: 1,
+    explanation: "A stack pushes and pops from the same end."
+  },
+  {
+    id: 3,
+    type: "single",
+    question: "An in-order traversal of a binary search tree visits keys in which order?",
+    options: ["Insertion order", "Random order", "Sorted order", "Reverse insertion order"],
+    correctAnswerIndex: 2,
+    explanation: "Left subtree, node, right subtree yields the keys in ascending order."
+  },
+  {
+    id: 4,
+    type: "single",
+    question: "Which search finds shortest paths in an unweighted graph?",
+    options: ["Depth-first search", "Binary search", "Linear search", "Breadth-first search"],
+    correctAnswerIndex: 3,
+    explanation: "BFS explores vertices in order of their distance from the start."
+  },
+  {
+    id: 5,
+    type: "single",
+    question: "Appending to a dynamic array that doubles its capacity costs, amortized:",
+    options: ["O(1)", "O(n)", "O(log n)", "O(n^2)"],
+    correctAnswerIndex: 0,
+    explanation: "Occasional O(n) copies are spread across the many O(1) appends in between."
+  },
+  {
+    id: 6,
+    type: "multi",
+    question: "Which of these structures support O(1) insertion at the front?",
+    options: ["Singly linked list", "Static array", "Doubly linked list", "Sorted array"],
+    correctAnswerIndex: 0,
+    correctAnswerIndices: [0, 2],
+    explanation: "Linked lists only relink a head pointer; arrays must shift every element."
+  },
+  {
+    id: 7,
+    type: "true_false",
+    question: "A binary search tree is always balanced.",
+    options: ["True", "False"],
+    correctAnswerIndex: 1,
+    explanation: "Inserting keys in sorted order produces a tree that is effectively a linked list."
+  },
+  {
+    id: 8,
+    type: "short_answer",
+    question: "In one sentence, why does breadth-first search use a queue?",
+    options: [],
+    correctAnswerIndex: -1,
+    correctAnswerText: "A queue processes vertices in the order they were discovered, so nearer vertices are visited before farther ones.",
+    explanation: "First-in, first-out order is exactly level-by-level exploration."
+  },
+  {
+    id: 9,
+    type: "numeric",
+    question: "How many edges does a tree with 12 vertices have?",
+    options: [],
+    correctAnswerIndex: -1,
+    numericAnswer: 11,
+    tolerance: 0,
+    explanation: "Every tree with n vertices has exactly n - 1 edges."
+  }
+];
+
+const lessonFixture = (request: GenerateRequest): string => {
+  const moduleTitle = String(request.params?.moduleTitle ?? "this module");
+  const depth = String(request.params?.depth ?? "Standard");
+  const topics = (request.params?.topics as string[] | undefined) ?? [];
+
+  return [
+    `# ${moduleTitle}`,
+    `*${depth} lesson — generated offline by the mock provider.*`,
+    `## Overview`,
+    `This lesson walks through the core ideas of **${moduleTitle}** and how they build on earlier modules.`,
+    ...topics.map(topic => `## ${topic}\n\n${topic} is a key idea in this module. Study its definition, a worked example and where it is used in practice.`),
+    `## Key Takeaways`,
+    topics.length ? topics.map(topic => `- ${topic}`).join("\n") : "- Review the syllabus for this module."
+  ].join("\n\n");
+};
+
+// The mock course runs one module a week from this week's Monday, so the study planner always has dates ahead
+const syllabusFixture = (): string => {
+  const now = new Date();
+  const monday = addDays(toIsoDate(now), -((now.getDay() + 6) % 7));
+  const day = (offset: number) => addDays(monday, offset);
+  return JSON.stringify({
+    ...MOCK_COURSE,
+    modules: MOCK_COURSE.modules.map((m, i) => ({ ...m, week: i + 1, startDate: day(i * 7), endDate: day(i * 7 + 4) })),
+    assessments: [
+      { id: "assignment-1", title: "Linked list assignment", type: "assignment", dueDate: day(11), weight: 15, moduleIds: ["m2"] },
+      { id: "midterm", title: "Midterm exam", type: "exam", dueDate: day(16), weight: 35, moduleIds: ["m1", "m2"] },
+      { id: "final", title: "Final exam", type: "exam", dueDate: day(32), weight: 50, moduleIds: ["m1", "m2", "m3", "m4"] }
+    ]
+  });
+};
+
+const flashcardsFixture = (request: GenerateRequest): string => {
+  const topics = (request.params?.topics as string[] | undefined) ?? [];
+  const objectives = (request.params?.learningObjectives as string[] | undefined) ?? [];
+  return JSON.stringify([
+    ...topics.map(topic => ({ term: topic, definition: `The core idea behind ${topic}, as covered in this module.` })),
+    ...objectives.map(objective => ({ term: objective, definition: `What you should be able to do: ${objective.toLowerCase()}.` }))
+  ]);
+};
+
+// A tutor–student exchange with one question and answer per topic
+const dialogueFixture = (request: GenerateRequest): string => {
+  const moduleTitle = (request.params?.moduleTitle as string | undefined) ?? "this module";
+  const topics = (request.params?.topics as string[] | undefined) ?? [];
+  return JSON.stringify([
+    { speaker: "Tutor", text: `Welcome! Today we're talking about ${moduleTitle}.`, topic: topics[0] },
+    ...topics.flatMap(topic => [
+      { speaker: "Student", text: `What should I know about ${topic}?`, topic },
+      { speaker: "Tutor", text: `Great question. ${topic} is one of the core ideas here, and it builds on what we covered before.`, topic }
+    ]),
+    { speaker: "Student", text: "Thanks, that makes it much clearer." }
+  ]);
+};
+
+// Cycles through the pool questions of the requested types until the requested count is reached,
+// spreading them over the requested modules and tagging each with one of its own module's topics
+const examFixture = (request: GenerateRequest): string => {
+  const types = (request.params?.questionTypes as QuestionType[] | undefined) ?? ["single"];
+  const count = Number(request.params?.questionCount ?? 5);
+  const moduleTopics = (request.params?.moduleTopics as Record<string, string[]> | undefined) ?? {};
+  const requested = (request.params?.moduleIds as string[] | undefined) ?? [];
+  // Modules left without a topic by the exam's topic filter get no questions
+  const withTopics = requested.filter(id => moduleTopics[id]?.length);
+  const moduleIds = withTopics.length ? withTopics : requested;
+  const pool = MOCK_EXAM.filter(q => types.includes(q.type));
+  const source = pool.length ? pool : MOCK_EXAM;
+  return JSON.stringify(
+    Array.from({ length: count }, (_, i) => {
+      const moduleId = moduleIds[i % Math.max(moduleIds.length, 1)];
+      const topics = moduleTopics[moduleId] ?? [];
+      return {
+        ...source[i % source.length],
+        id: i + 1,
+        moduleId,
+        topic: topics[Math.floor(i / Math.max(moduleIds.length, 1)) % Math.max(topics.length, 1)]
+      };
+    })
+  );
+};
+
+const remediationFixture = (request: GenerateRequest): string => {
+  const topics = (request.params?.topics as string[] | undefined) ?? [];
+  return [
+    `# Let's Review`,
+    `*Targeted review generated offline by the mock provider.*`,
+    ...topics.map(topic => `## ${topic}\n\nYou missed questions on **${topic}**. Re-read its definition, work through one example by hand, then explain it aloud in two sentences.`)
+  ].join("\n\n");
+};
+
+// Accepts a short answer when it shares a meaningful word with the model answer
+const gradingFixture = (request: GenerateRequest): string => {
+  const items = (request.params?.items as { modelAnswer: string; studentAnswer: string }[] | undefined) ?? [];
+  return JSON.stringify(items.map(item => {
+    const expected = new Set(item.modelAnswer.toLowerCase().match(/[a-z]{5,}/g) || []);
+    const correct = (item.studentAnswer.toLowerCase().match(/[a-z]{5,}/g) || []).some(w => expected.has(w));
+    return {
+      correct,
+      score: correct ? 1 : 0,
+      feedback: correct ? "Good — this captures the key idea." : "This misses the key idea of the model answer."
+    };
+  }));
+};
+
+// Cites the best retrieved passage, as the real prompt asks, so source chips show up offline too
+const chatFixture = (request: GenerateRequest): string =>
+  `Great question! (mock reply) You asked: "${request.prompt}". Try restating the idea in your own words, then check it against the lesson.${
+    request.params?.passageCount ? " [1]" : ""
+  }`;
+
+const voiceChatFixture = (): string =>
+  JSON.stringify({
+    transcript: "Can you explain the main idea of this lesson in a sentence?",
+    reply: "Sure! (mock reply) The main idea is to connect each new concept to what you already know, then practise it with an example."
+  });
+
+const chatSummaryFixture = (request: GenerateRequest): string => {
+  const questions = (request.params?.questions as string[] | undefined) ?? [];
+  return `(mock summary) The student has asked about: ${questions.map(q => `"${q}"`).join(", ") || "nothing yet"}.`;
+};
+
+const explainFixture = (request: GenerateRequest): string => {
+  const passage = String(request.params?.passage ?? "");
+  const style = String(request.params?.style ?? "eli5");
+  return style === "translate"
+    ? `(mock translation into ${request.params?.language}) ${passage}`
+    : `**(mock ${style})** "${passage.slice(0, 60)}" means the lesson is building on one core idea. Try restating it in your own words.`;
+};
+
+export const MOCK_FIXTURES: Record<ProviderTask, (request: GenerateRequest) => string> = {
+  syllabus: syllabusFixture,
+  lesson: lessonFixture,
+  graph: () => JSON.stringify(MOCK_GRAPH),
+  exam: examFixture,
+  grading: gradingFixture,
+  remediation: remediationFixture,
+  chat: chatFixture,
+  flashcards: flashcardsFixture,
+  dialogue: dialogueFixture,
+  voiceChat: voiceChatFixture,
+  chatSummary: chatSummaryFixture,
+  chatQuiz: examFixture,
+  explain: explainFixture
+};
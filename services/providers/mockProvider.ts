@@ -0,0 +1,70 @@
+import { GenerateRequest, LLMProvider, SpeechOptions } from "./types";
+import { MOCK_FIXTURES } from "./mockFixtures";
+
+const MOCK_SAMPLE_RATE = 24000;
+const MOCK_STREAM_CHUNK = 24;
+const MOCK_EMBEDDING_DIMENSIONS = 64;
+
+// Short enough to keep loading states visible without slowing down demos
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+// A soft 440Hz tone, one second long, in the same PCM format the Gemini TTS model returns
+const createTonePcmBase64 = (): string => {
+  const samples = new Int16Array(MOCK_SAMPLE_RATE);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / MOCK_SAMPLE_RATE) * 8000);
+  }
+  const bytes = new Uint8Array(samples.buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+// Hashed bag of words: texts sharing words get similar vectors, which is enough to exercise retrieval offline
+const createHashedEmbedding = (text: string): number[] => {
+  const vector = new Array(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+  (text.toLowerCase().match(/[a-z0-9]{3,}/g) || []).forEach(word => {
+    let hash = 0;
+    for (let i = 0; i < word.length; i++) hash = (hash * 31 + word.charCodeAt(i)) | 0;
+    vector[Math.abs(hash) % MOCK_EMBEDDING_DIMENSIONS] += 1;
+  });
+  return vector;
+};
+
+export const createMockProvider = (latencyMs: number = 400): LLMProvider => {
+  const generate = async (request: GenerateRequest): Promise<string> => {
+    await delay(latencyMs, request.signal);
+    return MOCK_FIXTURES[request.task](request);
+  };
+
+  async function* generateStream(request: GenerateRequest): AsyncGenerator<string> {
+    await delay(latencyMs, request.signal);
+    const text = MOCK_FIXTURES[request.task](request);
+    for (let i = 0; i < text.length; i += MOCK_STREAM_CHUNK) {
+      yield text.slice(i, i + MOCK_STREAM_CHUNK);
+      await delay(20, request.signal);
+    }
+  }
+
+  const synthesizeSpeech = async (_text: string, options: SpeechOptions = {}): Promise<string | undefined> => {
+    await delay(latencyMs, options.signal);
+    return createTonePcmBase64();
+  };
+
+  const embed = async (texts: string[], signal?: AbortSignal): Promise<number[][] | undefined> => {
+    await delay(latencyMs, signal);
+    return texts.map(createHashedEmbedding);
+  };
+
+  return { name: "mock", canSynthesizeSpeech: true, generate, generateStream, synthesizeSpeech, embed };
+};
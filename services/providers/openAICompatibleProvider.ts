@@ -0,0 +1,153 @@
+import { Schema } from "@google/genai";
+import { GenerateRequest, InlinePart, LLMProvider } from "./types";
+import { errorForStatus, InvalidOutputError, SafetyBlockError } from "./errors";
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  model: string;
+  apiKey?: string;
+  embeddingModel?: string; // e.g. nomic-embed-text; without one, retrieval falls back to keyword search
+}
+
+// Gemini schemas use upper-case type names; JSON Schema wants them lower-case
+const toJsonSchema = (schema: Schema): any => {
+  const out: any = {};
+  if (schema.type) out.type = schema.type.toLowerCase();
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) out.required = schema.required;
+  return out;
+};
+
+const decodeBase64Text = (data: string): string => {
+  const binary = atob(data);
+  const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+// Local models generally only take text and images, so other attachments are described instead of sent
+const toContentPart = (part: InlinePart): any => {
+  if (part.mimeType.startsWith("image/")) {
+    return { type: "image_url", image_url: { url: `data:${part.mimeType};base64,${part.data}` } };
+  }
+  if (part.mimeType.startsWith("text/")) {
+    return { type: "text", text: decodeBase64Text(part.data) };
+  }
+  return { type: "text", text: `[An attachment of type ${part.mimeType} was omitted because this model cannot read it.]` };
+};
+
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): LLMProvider => {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      const detail = `${options.baseUrl} responded with ${response.status}: ${await response.text()}`;
+      throw errorForStatus(response.status, detail) || new Error(detail);
+    }
+    return response;
+  };
+
+  const postCompletion = async (request: GenerateRequest, stream: boolean): Promise<Response> => {
+    let prompt = request.prompt;
+    if (request.responseSchema) {
+      prompt += `\n\nRespond with JSON only, matching this JSON Schema:\n${JSON.stringify(toJsonSchema(request.responseSchema))}`;
+    }
+
+    const messages: any[] = [];
+    if (request.systemInstruction) {
+      messages.push({ role: "system", content: request.systemInstruction });
+    }
+    (request.history || []).forEach(turn => {
+      messages.push({
+        role: turn.role === "model" ? "assistant" : "user",
+        content: turn.parts.map(p => p.text).join("\n")
+      });
+    });
+    messages.push({
+      role: "user",
+      content: [...(request.attachments || []).map(toContentPart), { type: "text", text: prompt }]
+    });
+
+    return post("/chat/completions", {
+      model: options.model,
+      messages,
+      stream,
+      response_format: request.responseSchema ? { type: "json_object" } : undefined
+    }, request.signal);
+  };
+
+  const generate = async (request: GenerateRequest): Promise<string> => {
+    const json = await (await postCompletion(request, false)).json();
+    if (json.choices?.[0]?.finish_reason === "content_filter") throw new SafetyBlockError("content filter");
+    return json.choices?.[0]?.message?.content || "";
+  };
+
+  // One "data:" payload; servers report failures after the stream has started as { "error": {...} }
+  const parseStreamEvent = (data: string): any => {
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch (err) {
+      throw new InvalidOutputError("The AI service sent a malformed streaming response. Try again.", [data.slice(0, 200)], { cause: err });
+    }
+    if (event?.error) {
+      const message = String(event.error.message || event.error);
+      const status = Number(event.error.code);
+      throw (Number.isInteger(status) && errorForStatus(status, message))
+        || new InvalidOutputError(`The AI service reported an error: ${message}`, [message]);
+    }
+    return event;
+  };
+
+  // Server-sent events: one "data: {...}" line per delta, terminated by "data: [DONE]"
+  async function* generateStream(request: GenerateRequest): AsyncGenerator<string> {
+    const response = await postCompletion(request, true);
+    if (!response.body) return;
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = "";
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffered += value;
+
+      const lines = buffered.split("\n");
+      buffered = lines.pop() || "";
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+        const choice = parseStreamEvent(data).choices?.[0];
+        if (choice?.finish_reason === "content_filter") throw new SafetyBlockError("content filter");
+        if (choice?.delta?.content) yield choice.delta.content;
+      }
+    }
+  }
+
+  // OpenAI-compatible servers have no standard speech endpoint for raw PCM
+  const synthesizeSpeech = async (): Promise<string | undefined> => undefined;
+
+  const embed = async (texts: string[], signal?: AbortSignal): Promise<number[][] | undefined> => {
+    if (!options.embeddingModel) return undefined;
+    const json = await (await post("/embeddings", { model: options.embeddingModel, input: texts }, signal)).json();
+    return [...(json.data || [])]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((d: any) => d.embedding);
+  };
+
+  return { name: "openai-compatible", canSynthesizeSpeech: false, generate, generateStream, synthesizeSpeech, embed };
+};
@@ -0,0 +1,124 @@
+import { GenerateRequest, LLMProvider, ModelTier, SpeechOptions } from "./types";
+import { LLMError, NetworkError, toLLMError } from "./errors";
+
+export interface ResilienceOptions {
+  // Per attempt; for streams, the longest allowed gap between chunks
+  timeoutMs: Record<ModelTier, number>;
+  maxRetries: number;
+  baseDelayMs: number;
+}
+
+const DEFAULT_OPTIONS: ResilienceOptions = {
+  // Pro requests may spend a long time thinking before the first token
+  timeoutMs: { fast: 60_000, pro: 180_000 },
+  maxRetries: 3,
+  baseDelayMs: 1_000
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+// An AbortSignal that fires when the caller aborts or when the timer runs out, whichever comes first
+const createAttemptSignal = (timeoutMs: number, parent?: AbortSignal) => {
+  const controller = new AbortController();
+  const timeoutError = new NetworkError("The AI service took too long to respond. Try again in a moment.");
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const onParentAbort = () => controller.abort(parent?.reason);
+
+  const reset = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => controller.abort(timeoutError), timeoutMs);
+  };
+  // Stops the clock without detaching from the caller's signal, e.g. while the consumer handles a chunk
+  const pause = () => clearTimeout(timer);
+  const dispose = () => {
+    pause();
+    parent?.removeEventListener("abort", onParentAbort);
+  };
+
+  if (parent?.aborted) controller.abort(parent.reason);
+  parent?.addEventListener("abort", onParentAbort, { once: true });
+  reset();
+
+  // What to throw for a failed attempt: the caller's abort as-is, our own timeout as a NetworkError
+  const explain = (err: unknown): unknown => {
+    if (parent?.aborted) return parent.reason;
+    if (controller.signal.reason === timeoutError) return timeoutError;
+    return toLLMError(err);
+  };
+
+  return { signal: controller.signal, reset, pause, dispose, explain };
+};
+
+// Invalid output is retried by re-prompting (see generateValidated), not by repeating the same request
+const shouldRetry = (err: unknown) =>
+  err instanceof LLMError && err.retryable && err.kind !== "invalid_output";
+
+// Exponential backoff with jitter so parallel requests don't retry in lockstep
+const backoff = (options: ResilienceOptions, attempt: number) =>
+  options.baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+
+// Wraps any provider with per-attempt timeouts, retries with backoff on quota and network errors,
+// cancellation through request.signal, and typed errors from ./errors
+export const withResilience = (provider: LLMProvider, overrides: Partial<ResilienceOptions> = {}): LLMProvider => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+
+  const run = async <T>(timeoutMs: number, parent: AbortSignal | undefined, call: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      const attemptSignal = createAttemptSignal(timeoutMs, parent);
+      try {
+        return await call(attemptSignal.signal);
+      } catch (err) {
+        const error = attemptSignal.explain(err);
+        if (attempt >= options.maxRetries || !shouldRetry(error)) throw error;
+        console.warn(`${provider.name} request failed (attempt ${attempt + 1}), retrying:`, error);
+        await sleep(backoff(options, attempt), parent);
+      } finally {
+        attemptSignal.dispose();
+      }
+    }
+  };
+
+  const generate = (request: GenerateRequest): Promise<string> =>
+    run(options.timeoutMs[request.tier], request.signal, signal => provider.generate({ ...request, signal }));
+
+  // A stream is only retried before its first chunk; after that a retry would repeat text already shown
+  async function* generateStream(request: GenerateRequest): AsyncGenerator<string> {
+    for (let attempt = 0; ; attempt++) {
+      const attemptSignal = createAttemptSignal(options.timeoutMs[request.tier], request.signal);
+      let started = false;
+      try {
+        for await (const chunk of provider.generateStream({ ...request, signal: attemptSignal.signal })) {
+          started = true;
+          // Time spent by the consumer is not the provider's inactivity
+          attemptSignal.pause();
+          yield chunk;
+          attemptSignal.reset();
+        }
+        return;
+      } catch (err) {
+        const error = attemptSignal.explain(err);
+        if (started || attempt >= options.maxRetries || !shouldRetry(error)) throw error;
+        console.warn(`${provider.name} stream failed (attempt ${attempt + 1}), retrying:`, error);
+        await sleep(backoff(options, attempt), request.signal);
+      } finally {
+        attemptSignal.dispose();
+      }
+    }
+  }
+
+  const synthesizeSpeech = (text: string, speech: SpeechOptions = {}): Promise<string | undefined> =>
+    run(options.timeoutMs.fast, speech.signal, signal => provider.synthesizeSpeech(text, { ...speech, signal }));
+
+  const embed = (texts: string[], signal?: AbortSignal): Promise<number[][] | undefined> =>
+    run(options.timeoutMs.fast, signal, attemptSignal => provider.embed(texts, attemptSignal));
+
+  return { name: provider.name, canSynthesizeSpeech: provider.canSynthesizeSpeech, generate, generateStream, synthesizeSpeech, embed };
+};
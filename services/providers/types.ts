@@ -0,0 +1,57 @@
+import { Schema } from "@google/genai";
+
+// Which class of model a request needs. Each provider maps tiers to its own model names.
+export type ModelTier = "fast" | "pro";
+
+// The generator a request comes from. The mock provider picks its fixture by task.
+export type ProviderTask = "syllabus" | "lesson" | "graph" | "exam" | "grading" | "remediation" | "chat" | "flashcards" | "dialogue" | "voiceChat" | "chatSummary" | "chatQuiz" | "explain";
+
+export interface InlinePart {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface ChatTurn {
+  role: string;
+  parts: { text: string }[];
+}
+
+export interface GenerateRequest {
+  task: ProviderTask;
+  tier: ModelTier;
+  prompt: string;
+  attachments?: InlinePart[];
+  history?: ChatTurn[];
+  systemInstruction?: string;
+  // When set, the provider must answer with JSON matching this schema
+  responseSchema?: Schema;
+  thinkingBudget?: number;
+  // The structured inputs the prompt was built from, so fixtures can echo them back
+  params?: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+export interface SpeakerVoice {
+  speaker: string; // as it appears before the colon in the transcript, e.g. "Tutor"
+  voice: string;
+}
+
+export interface SpeechOptions {
+  voice?: string; // single-speaker voice; each provider has its own default
+  // When set, the text is a "Speaker: line" transcript read with one voice per speaker
+  speakers?: SpeakerVoice[];
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  generate(request: GenerateRequest): Promise<string>;
+  // Yields text deltas as they arrive; concatenated they equal what generate() would return
+  generateStream(request: GenerateRequest): AsyncIterable<string>;
+  // False when the backend has no TTS; the app then hides its audio features
+  readonly canSynthesizeSpeech: boolean;
+  // Returns base64 24kHz 16-bit mono PCM, or undefined if the backend has no TTS
+  synthesizeSpeech(text: string, options?: SpeechOptions): Promise<string | undefined>;
+  // One vector per text, in order, or undefined if the backend has no embedding model
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][] | undefined>;
+}
@@ -0,0 +1,280 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown from "react-markdown";
+import { ContentDepth, CourseModule, CourseStructure, ExamQuestion, KnowledgeGraphData, SyllabusDocument } from "../types";
+import { getOrGenerateLesson } from "./lessonCache";
+import { getQuestionSet, listExamAttempts, saveQuestionSet } from "./courseStore";
+import { generateExam } from "./geminiService";
+import { renderGraphSvg } from "../utils/graphSnapshot";
+
+export type StudyPackFormat = "markdown" | "html" | "pdf";
+
+export interface StudyPackOptions {
+  depth: ContentDepth;
+  includeGraph: boolean;
+  includeQuestions: boolean;
+  // Write practice questions for modules that have never been examined
+  generateMissingQuestions: boolean;
+}
+
+export interface StudyPackProgress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+interface ModuleSection {
+  module: CourseModule;
+  lesson: string;
+  questions: ExamQuestion[];
+}
+
+export interface StudyPack {
+  structure: CourseStructure;
+  depth: ContentDepth;
+  graphSvg: string | null;
+  sections: ModuleSection[];
+}
+
+const MAX_QUESTIONS_PER_MODULE = 10;
+const PRACTICE_QUESTION_COUNT = 5;
+
+// Questions from past exams, attributed by their module tag (or the module the exam was started from).
+// Exams taken before a module was edited in the outline are skipped for that module.
+const pastQuestionsByModule = async (courseId: string, modules: CourseModule[]): Promise<Record<string, ExamQuestion[]>> => {
+  const byModule: Record<string, ExamQuestion[]> = {};
+  (await listExamAttempts(courseId)).forEach(attempt => attempt.questions.forEach(q => {
+    const moduleId = q.moduleId || attempt.moduleId;
+    const revisedAt = modules.find(m => m.id === moduleId)?.revisedAt;
+    if (revisedAt && attempt.completedAt < revisedAt) return;
+    const existing = byModule[moduleId] || (byModule[moduleId] = []);
+    if (!existing.some(e => e.question === q.question)) existing.push(q);
+  }));
+  return byModule;
+};
+
+// Practice questions written for an earlier pack are reused until the module is edited in the outline
+const getOrGeneratePracticeQuestions = async (
+  courseId: string,
+  syllabus: SyllabusDocument[],
+  module: CourseModule,
+  signal?: AbortSignal
+): Promise<ExamQuestion[]> => {
+  const saved = await getQuestionSet(courseId, module.id);
+  if (saved?.questions.length && !(module.revisedAt && saved.createdAt < module.revisedAt)) return saved.questions;
+
+  const questions = await generateExam(syllabus, [module], {
+    questionCount: PRACTICE_QUESTION_COUNT,
+    difficulty: "medium",
+    moduleIds: [module.id],
+    topics: [],
+    questionTypes: ["single", "true_false", "short_answer"],
+    timeLimitMinutes: null
+  }, signal);
+  await saveQuestionSet(courseId, module.id, questions);
+  return questions;
+};
+
+// Gathers every lesson at one depth, plus questions and the graph, generating what has never been opened
+export const assembleStudyPack = async (
+  courseId: string,
+  syllabus: SyllabusDocument[],
+  structure: CourseStructure,
+  graph: KnowledgeGraphData | null,
+  options: StudyPackOptions,
+  onProgress: (progress: StudyPackProgress) => void,
+  signal?: AbortSignal
+): Promise<StudyPack> => {
+  const modules = structure.modules;
+  const pastQuestions = options.includeQuestions ? await pastQuestionsByModule(courseId, modules) : {};
+  const sections: ModuleSection[] = [];
+
+  for (let i = 0; i < modules.length; i++) {
+    const module = modules[i];
+    onProgress({ label: `Preparing ${module.title}`, done: i, total: modules.length });
+    const lesson = await getOrGenerateLesson({ courseId, syllabus, module, depth: options.depth, signal });
+
+    let questions = (pastQuestions[module.id] || []).slice(0, MAX_QUESTIONS_PER_MODULE);
+    if (options.includeQuestions && !questions.length && options.generateMissingQuestions) {
+      onProgress({ label: `Writing practice questions for ${module.title}`, done: i, total: modules.length });
+      questions = await getOrGeneratePracticeQuestions(courseId, syllabus, module, signal);
+    }
+    signal?.throwIfAborted();
+    sections.push({ module, lesson, questions });
+  }
+  onProgress({ label: "Laying out the study pack", done: modules.length, total: modules.length });
+
+  return {
+    structure,
+    depth: options.depth,
+    graphSvg: options.includeGraph && graph?.nodes.length ? renderGraphSvg(graph) : null,
+    sections
+  };
+};
+
+// Lesson headings move down three levels so they nest under the module's "Lesson" heading
+const demoteHeadings = (markdown: string): string => {
+  let inFence = false;
+  return markdown.split("\n").map(line => {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (inFence) return line;
+    return line.replace(/^(#{1,6})(\s)/, (_, hashes: string, space: string) => `${"#".repeat(Math.min(6, hashes.length + 3))}${space}`);
+  }).join("\n");
+};
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+const questionMarkdown = (q: ExamQuestion, number: number): string => {
+  const options = q.options.map((o, i) => `   - ${letter(i)}. ${o}`);
+  const prompt = q.type === "multi" ? " *(select all that apply)*" : "";
+  const blank = q.type === "short_answer" || q.type === "numeric" ? ["", "   Answer: ______________________"] : [];
+  return [`${number}. ${q.question}${prompt}`, ...options, ...blank].join("\n");
+};
+
+const answerMarkdown = (q: ExamQuestion, number: number): string => {
+  let answer: string;
+  switch (q.type) {
+    case "multi":
+      answer = (q.correctAnswerIndices || []).map(i => `${letter(i)} (${q.options[i]})`).join(", ");
+      break;
+    case "short_answer":
+      answer = q.correctAnswerText || "";
+      break;
+    case "numeric":
+      answer = `${q.numericAnswer}${q.tolerance ? ` (± ${q.tolerance})` : ""}`;
+      break;
+    default:
+      answer = `${letter(q.correctAnswerIndex)} (${q.options[q.correctAnswerIndex]})`;
+  }
+  return `${number}. **${answer}** — ${q.explanation}`;
+};
+
+const moduleHeading = (section: ModuleSection, index: number) => `Module ${index + 1}: ${section.module.title}`;
+
+// GitHub-style heading anchors, so the table of contents links work in Markdown viewers
+const slug = (heading: string) =>
+  heading.toLowerCase().trim().replace(/[^\p{L}\p{N}\s-]/gu, "").replace(/\s/g, "-");
+
+// The parts of a module in reading order: objectives, lesson, then questions without answers
+const moduleBody = (section: ModuleSection): string => [
+  "### Learning Objectives",
+  section.module.learningObjectives.map(o => `- ${o}`).join("\n") || "- (none listed)",
+  "### Lesson",
+  demoteHeadings(section.lesson),
+  ...(section.questions.length
+    ? ["### Practice Questions", section.questions.map((q, i) => questionMarkdown(q, i + 1)).join("\n\n")]
+    : [])
+].join("\n\n");
+
+const answerKeyBody = (pack: StudyPack): string =>
+  pack.sections
+    .map((section, i) => ({ section, i }))
+    .filter(({ section }) => section.questions.length)
+    .map(({ section, i }) => [
+      `### ${moduleHeading(section, i)}`,
+      section.questions.map((q, n) => answerMarkdown(q, n + 1)).join("\n")
+    ].join("\n\n"))
+    .join("\n\n");
+
+const hasQuestions = (pack: StudyPack) => pack.sections.some(s => s.questions.length);
+
+export const studyPackToMarkdown = (pack: StudyPack): string => {
+  const contents = [
+    ...(pack.graphSvg ? ["Knowledge Graph"] : []),
+    ...pack.sections.map(moduleHeading),
+    ...(hasQuestions(pack) ? ["Answer Key"] : [])
+  ].map(heading => `- [${heading}](#${slug(heading)})`);
+
+  return [
+    `# ${pack.structure.title}`,
+    `*${pack.structure.description}*`,
+    `Study pack · ${pack.depth} lessons · ${new Date().toLocaleDateString()}`,
+    "## Contents",
+    contents.join("\n"),
+    ...(pack.graphSvg
+      ? ["## Knowledge Graph", `![Knowledge graph of the course](data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(pack.graphSvg)))})`]
+      : []),
+    ...pack.sections.flatMap((section, i) => [`## ${moduleHeading(section, i)}`, moduleBody(section)]),
+    ...(hasQuestions(pack) ? ["## Answer Key", answerKeyBody(pack)] : [])
+  ].join("\n\n") + "\n";
+};
+
+const renderMarkdown = (markdown: string): string =>
+  renderToStaticMarkup(createElement(ReactMarkdown, null, markdown));
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Screen and print share one stylesheet; print starts each module on a new page and keeps questions whole
+const STUDY_PACK_CSS = `
+  body { font-family: Georgia, "Times New Roman", serif; color: #1e293b; max-width: 48rem; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.6; }
+  h1, h2, h3, h4, h5, h6 { font-family: system-ui, sans-serif; color: #0f172a; line-height: 1.25; }
+  h1 { font-size: 2.2em; margin-bottom: 0.2em; }
+  h2 { font-size: 1.6em; border-bottom: 2px solid #e2e8f0; padding-bottom: 0.2em; margin-top: 2em; }
+  .subtitle { color: #475569; font-style: italic; }
+  .meta { color: #64748b; font-size: 0.9em; }
+  nav ol { padding-left: 1.5em; }
+  nav a { color: #1d4ed8; text-decoration: none; }
+  pre { background: #f1f5f9; padding: 0.8em; border-radius: 6px; overflow-x: auto; }
+  code { font-family: ui-monospace, monospace; font-size: 0.9em; }
+  blockquote { border-left: 4px solid #93c5fd; margin-left: 0; padding-left: 1em; color: #475569; }
+  table { border-collapse: collapse; } td, th { border: 1px solid #cbd5e1; padding: 0.3em 0.6em; }
+  figure { margin: 1em 0; } figure svg { max-width: 100%; height: auto; }
+  .questions ol > li { margin-bottom: 0.8em; }
+  .questions ol ol { list-style-type: upper-alpha; }
+  .blank { border-bottom: 1px solid #94a3b8; display: inline-block; width: 60%; height: 1.2em; }
+  @media print {
+    body { margin: 0; max-width: none; font-size: 11pt; }
+    nav a { color: inherit; }
+    section.module, section.answer-key { break-before: page; }
+    .questions li, figure { break-inside: avoid; }
+    h2, h3 { break-after: avoid; }
+  }
+`;
+
+const questionHtml = (q: ExamQuestion): string => {
+  const prompt = q.type === "multi" ? " <em>(select all that apply)</em>" : "";
+  const options = q.options.length ? `<ol>${q.options.map(o => `<li>${escapeHtml(o)}</li>`).join("")}</ol>` : "";
+  const blank = q.type === "short_answer" || q.type === "numeric" ? `<p>Answer: <span class="blank"></span></p>` : "";
+  return `<li>${escapeHtml(q.question)}${prompt}${options}${blank}</li>`;
+};
+
+export const studyPackToHtml = (pack: StudyPack): string => {
+  const { structure } = pack;
+  const contents = [
+    ...(pack.graphSvg ? [`<li><a href="#knowledge-graph">Knowledge Graph</a></li>`] : []),
+    ...pack.sections.map((s, i) => `<li><a href="#module-${i + 1}">${escapeHtml(moduleHeading(s, i))}</a></li>`),
+    ...(hasQuestions(pack) ? [`<li><a href="#answer-key">Answer Key</a></li>`] : [])
+  ];
+
+  const modules = pack.sections.map((section, i) => `
+    <section class="module" id="module-${i + 1}">
+      <h2>${escapeHtml(moduleHeading(section, i))}</h2>
+      <h3>Learning Objectives</h3>
+      <ul>${section.module.learningObjectives.map(o => `<li>${escapeHtml(o)}</li>`).join("")}</ul>
+      <h3>Lesson</h3>
+      ${renderMarkdown(demoteHeadings(section.lesson))}
+      ${section.questions.length ? `<div class="questions"><h3>Practice Questions</h3><ol>${section.questions.map(questionHtml).join("")}</ol></div>` : ""}
+    </section>`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(structure.title)} — Study Pack</title>
+<style>${STUDY_PACK_CSS}</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(structure.title)}</h1>
+    <p class="subtitle">${escapeHtml(structure.description)}</p>
+    <p class="meta">Study pack · ${escapeHtml(pack.depth)} lessons · ${new Date().toLocaleDateString()}</p>
+  </header>
+  <nav><h2>Contents</h2><ol>${contents.join("")}</ol></nav>
+  ${pack.graphSvg ? `<section id="knowledge-graph"><h2>Knowledge Graph</h2><figure>${pack.graphSvg}</figure></section>` : ""}
+  ${modules.join("\n")}
+  ${hasQuestions(pack) ? `<section class="answer-key" id="answer-key"><h2>Answer Key</h2>${renderMarkdown(answerKeyBody(pack))}</section>` : ""}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,49 @@
+import { CalendarEventDates } from "../utils/ical";
+import { StudyPlanOptions } from "../utils/studyPlan";
+
+const STORAGE_KEY = "syllabus-engine:study-plan";
+const CALENDAR_KEY_PREFIX = "syllabus-engine:calendar-export:";
+
+// Two hours on weekdays and one at the weekend, Sunday first
+const DEFAULT_PREFERENCES: StudyPlanOptions = {
+  hoursByWeekday: [1, 2, 2, 2, 2, 2, 1]
+};
+
+// The hours a student has are per browser rather than per course, so they live in localStorage
+export const loadStudyPreferences = (): StudyPlanOptions => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    return Array.isArray(saved?.hoursByWeekday) && saved.hoursByWeekday.length === 7
+      ? { ...DEFAULT_PREFERENCES, ...saved }
+      : DEFAULT_PREFERENCES;
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+// Storage can be full or disabled (private browsing); the hours then last until the page is closed
+export const saveStudyPreferences = (preferences: StudyPlanOptions): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (err) {
+    console.warn("Failed to save study hours:", err);
+  }
+};
+
+// The events of a course's last calendar export, so the next one can cancel those the plan dropped
+export const loadCalendarExport = (courseId: string): CalendarEventDates => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CALENDAR_KEY_PREFIX + courseId) || "null");
+    return saved && typeof saved === "object" && !Array.isArray(saved) ? saved : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveCalendarExport = (courseId: string, events: CalendarEventDates): void => {
+  try {
+    localStorage.setItem(CALENDAR_KEY_PREFIX + courseId, JSON.stringify(events));
+  } catch (err) {
+    console.warn("Failed to remember the calendar export:", err);
+  }
+};
@@ -0,0 +1,43 @@
+import { DialogueSpeaker } from "../types";
+
+// Prebuilt voices of the Gemini TTS model, with the style Google describes for each
+export const VOICES: { name: string; style: string }[] = [
+  { name: "Puck", style: "Upbeat" },
+  { name: "Kore", style: "Firm" },
+  { name: "Charon", style: "Informative" },
+  { name: "Fenrir", style: "Excitable" },
+  { name: "Aoede", style: "Breezy" },
+  { name: "Zephyr", style: "Bright" },
+  { name: "Leda", style: "Youthful" },
+  { name: "Orus", style: "Firm" },
+  { name: "Sulafat", style: "Warm" },
+  { name: "Achird", style: "Friendly" }
+];
+
+export interface VoicePreferences {
+  voice: string; // read-aloud lessons and exports
+  dialogue: Record<DialogueSpeaker, string>;
+}
+
+const STORAGE_KEY = "syllabus-engine:voices";
+
+const DEFAULT_PREFERENCES: VoicePreferences = {
+  voice: "Puck",
+  dialogue: { Tutor: "Charon", Student: "Leda" }
+};
+
+// Preferences are per browser rather than per course, so they live in localStorage
+export const loadVoicePreferences = (): VoicePreferences => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    return saved
+      ? { ...DEFAULT_PREFERENCES, ...saved, dialogue: { ...DEFAULT_PREFERENCES.dialogue, ...saved.dialogue } }
+      : DEFAULT_PREFERENCES;
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const saveVoicePreferences = (preferences: VoicePreferences): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+};
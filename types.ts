@@ -3,12 +3,37 @@ export interface CourseModule {
   title: string;
   topics: string[];
   learningObjectives: string[];
+  // Schedule from the syllabus, when it gives one. Dates are calendar dates (YYYY-MM-DD) without a time zone.
+  week?: number;
+  startDate?: string;
+  endDate?: string;
+  // Set when the module is edited in the outline editor; questions written before then no longer match it
+  revisedAt?: number;
+}
+
+export type AssessmentType = 'exam' | 'quiz' | 'assignment' | 'project' | 'other';
+
+// A graded piece of work listed in the syllabus
+export interface Assessment {
+  id: string;
+  title: string;
+  type: AssessmentType;
+  dueDate?: string; // YYYY-MM-DD
+  weight?: number; // share of the final grade, in percent
+  moduleIds: string[]; // the modules it covers; empty when the syllabus does not say
 }
 
 export interface CourseStructure {
   title: string;
   description: string;
   modules: CourseModule[];
+  assessments?: Assessment[];
+}
+
+// Where a passage the Sidekick drew on comes from
+export interface ChatSource {
+  moduleId?: string; // unset for the syllabus itself
+  label: string; // e.g. "Module 2: Cell Respiration" or "Syllabus: bio101.pdf"
 }
 
 export interface Message {
@@ -16,6 +41,16 @@ export interface Message {
   role: 'user' | 'model';
   content: string;
   timestamp: number;
+  inputMode?: 'text' | 'voice'; // voice: a transcribed recording, or a reply that was spoken aloud
+  sources?: ChatSource[]; // model replies: the course passages the reply cites
+  quiz?: ChatQuiz; // model replies to "Quiz me": interactive questions instead of free text
+}
+
+// A "Quiz me" round in the Sidekick chat; answers and results are set once the student submits
+export interface ChatQuiz {
+  questions: ExamQuestion[];
+  answers?: Record<number, ExamAnswer>;
+  results?: QuestionResult[];
 }
 
 export interface KnowledgeNode {
@@ -23,6 +58,9 @@ export interface KnowledgeNode {
   group: number;
   label: string;
   status: 'locked' | 'available' | 'completed';
+  // The CourseModule that teaches this concept and the topic within it
+  moduleId?: string;
+  topic?: string;
 }
 
 export interface KnowledgeLink {
@@ -42,10 +80,218 @@ export enum ContentDepth {
   DEEP_DIVE = 'Deep Dive'
 }
 
+export type QuestionType = 'single' | 'multi' | 'true_false' | 'short_answer' | 'numeric';
+
 export interface ExamQuestion {
   id: number;
+  type: QuestionType;
   question: string;
-  options: string[];
-  correctAnswerIndex: number;
+  options: string[]; // empty for short_answer and numeric; ["True", "False"] for true_false
+  correctAnswerIndex: number; // single and true_false
+  correctAnswerIndices?: number[]; // multi
+  correctAnswerText?: string; // short_answer: the model answer the grader compares against
+  numericAnswer?: number;
+  tolerance?: number; // numeric: accepted absolute difference
   explanation: string;
+  // What the question tests, copied from the CourseModule it was generated from
+  moduleId?: string;
+  topic?: string;
+  learningObjective?: string;
+}
+
+// Option index for single/true_false, indices for multi, free text for short_answer and numeric
+export type ExamAnswer = number | number[] | string;
+
+export interface QuestionResult {
+  questionId: number;
+  correct: boolean;
+  score: number; // 0 to 1; short answers can earn partial credit
+  feedback?: string;
+}
+
+// A topic the learner got wrong in an exam, with the questions that exposed it
+export interface WeakSpot {
+  moduleId: string;
+  topic: string;
+  learningObjectives: string[];
+  missedQuestions: ExamQuestion[];
 }
+
+export type ExamDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface ExamConfig {
+  questionCount: number;
+  difficulty: ExamDifficulty;
+  moduleIds: string[];
+  topics: string[]; // empty means every topic of the selected modules
+  questionTypes: QuestionType[];
+  timeLimitMinutes: number | null;
+}
+
+
+// One file of a course's syllabus, normalized by services/ingestion.ts.
+// Exactly one of `text` (extracted locally) or `data` (base64, for formats the model reads natively) is set.
+export interface SyllabusDocument {
+  name: string;
+  mimeType: string;
+  text?: string;
+  data?: string;
+}
+
+export interface SavedCourse {
+  id: string; // SHA-256 of the syllabus, so re-uploading the same files resumes the course
+  fileName: string;
+  syllabus: SyllabusDocument[];
+  structure: CourseStructure;
+  graph: KnowledgeGraphData | null;
+  lastModuleId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ExplanationStyle = 'eli5' | 'definition' | 'example' | 'analogy' | 'translate';
+
+// An explanation of a passage the learner selected, shown next to that passage in the lesson
+export interface LessonAnnotation {
+  id: string;
+  quote: string; // the selected text, used to find the passage again, see utils/annotations.ts
+  style: ExplanationStyle;
+  language?: string; // translate only
+  content: string; // Markdown
+  createdAt: number;
+}
+
+export interface SavedLesson {
+  id: string;
+  courseId: string;
+  moduleId: string;
+  depth: ContentDepth;
+  content: string;
+  annotations?: LessonAnnotation[];
+  createdAt: number;
+}
+
+export interface ExamAttempt {
+  id: string;
+  courseId: string;
+  moduleId: string; // the module the exam was started from
+  moduleIds: string[]; // every module the exam covered
+  config: ExamConfig;
+  questions: ExamQuestion[];
+  answers: Record<number, ExamAnswer>;
+  results: QuestionResult[];
+  score: number;
+  total: number;
+  durationSeconds: number;
+  completedAt: number;
+}
+
+// Before threads, each course had one conversation; see listChatThreads in services/courseStore.ts
+export interface SavedChat {
+  courseId: string;
+  messages: Message[];
+}
+
+// A Sidekick conversation scoped to a module, or free-form when moduleId is unset
+export interface ChatThread {
+  id: string;
+  courseId: string;
+  moduleId?: string;
+  title: string;
+  messages: Message[];
+  // Long histories are condensed before they are sent: summary covers the first summarizedCount messages
+  summary?: string;
+  summarizedCount?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Flashcard {
+  id: string;
+  courseId: string;
+  moduleId: string;
+  term: string;
+  definition: string;
+  // SM-2 scheduling state, see utils/spacedRepetition.ts
+  easeFactor: number;
+  interval: number; // days
+  repetitions: number;
+  dueAt: number;
+  lastReviewedAt?: number;
+}
+
+export type DialogueSpeaker = 'Tutor' | 'Student';
+
+// One turn of a podcast-style conversation about a lesson
+export interface DialogueLine {
+  speaker: DialogueSpeaker;
+  text: string;
+  topic?: string; // the module topic this turn is about, used for seeking
+}
+
+export interface SavedDialogue {
+  id: string; // same key as the lesson it was written from
+  courseId: string;
+  moduleId: string;
+  depth: ContentDepth;
+  lines: DialogueLine[];
+  createdAt: number;
+}
+
+// Synthesized speech for one chunk of lesson text, see services/audioCache.ts
+// Practice questions kept per module, so a study pack only pays for them once
+export interface SavedQuestionSet {
+  id: string; // `${courseId}:${moduleId}`
+  courseId: string;
+  moduleId: string;
+  questions: ExamQuestion[];
+  createdAt: number;
+}
+
+export interface SavedAudio {
+  id: string; // `${courseId}:${sha256 of the text}`
+  courseId: string;
+  audio: string; // base64 24kHz 16-bit mono PCM
+  createdAt: number;
+}
+
+export interface ModuleProgress {
+  id: string; // `${courseId}:${moduleId}`
+  courseId: string;
+  moduleId: string;
+  lessonViewedAt?: number;
+  examPassedAt?: number;
+  bestExamScore?: number; // 0 to 1
+  // Practice questions from Sidekick quizzes, kept apart from exams so practice alone never completes a module
+  quizQuestionsAnswered?: number;
+  quizPoints?: number;
+  lastQuizAt?: number;
+}
+
+export type LearningEventType =
+  | 'module_opened'
+  | 'lesson_time'
+  | 'exam_started'
+  | 'exam_completed'
+  | 'exam_abandoned'
+  | 'chat_question'
+  | 'quiz_completed'
+  | 'flashcard_reviewed';
+
+// One thing a student did, recorded locally for the learner analytics dashboard
+export interface LearningEvent {
+  id: string;
+  courseId: string;
+  type: LearningEventType;
+  timestamp: number;
+  moduleId?: string;
+  moduleIds?: string[]; // exams: every module the exam covered
+  depth?: ContentDepth; // module_opened, lesson_time
+  seconds?: number; // lesson_time, exam_completed, exam_abandoned: time spent
+  score?: number; // exam_completed, quiz_completed: points earned
+  total?: number; // exams and quizzes: number of questions
+  answered?: number; // exam_abandoned: questions answered before closing
+  inputMode?: 'text' | 'voice'; // chat_question
+}
+
+export type LearningEventDetails = Omit<LearningEvent, 'id' | 'courseId' | 'type' | 'timestamp'>;
@@ -0,0 +1,129 @@
+import { CourseModule, ExamAttempt, LearningEvent, ModuleProgress } from "../types";
+import { addDays, toIsoDate } from "./dates";
+
+// Aggregates behind the learner analytics dashboard, computed from the local event log,
+// saved exam attempts and module progress
+
+export interface ModuleMastery {
+  module: CourseModule;
+  mastery: number; // 0 to 1
+  bestExamScore?: number;
+  quizAccuracy?: number;
+  lessonViewed: boolean;
+  seconds: number; // time spent on its lessons
+  questionsAsked: number; // Sidekick questions asked while studying it
+}
+
+export interface ObjectiveScore {
+  objective: string;
+  moduleId?: string;
+  correct: number; // points earned, partial credit included
+  total: number;
+}
+
+export interface Streaks {
+  current: number; // consecutive days up to today (or yesterday, if nothing happened yet today)
+  longest: number;
+  activeDays: Set<string>; // YYYY-MM-DD
+}
+
+// Exams weigh most; practice quizzes and having read the lesson make up the rest
+const MASTERY_WEIGHTS = { exam: 0.7, quiz: 0.2, lesson: 0.1 };
+
+export const moduleMastery = (
+  modules: CourseModule[],
+  progress: ModuleProgress[],
+  events: LearningEvent[]
+): ModuleMastery[] =>
+  modules.map(module => {
+    const p = progress.find(m => m.moduleId === module.id);
+    const quizAccuracy = p?.quizQuestionsAnswered ? (p.quizPoints || 0) / p.quizQuestionsAnswered : undefined;
+    const lessonViewed = !!p?.lessonViewedAt;
+    const moduleEvents = events.filter(e => e.moduleId === module.id);
+    return {
+      module,
+      mastery: MASTERY_WEIGHTS.exam * (p?.bestExamScore || 0)
+        + MASTERY_WEIGHTS.quiz * (quizAccuracy || 0)
+        + MASTERY_WEIGHTS.lesson * (lessonViewed ? 1 : 0),
+      bestExamScore: p?.bestExamScore,
+      quizAccuracy,
+      lessonViewed,
+      seconds: moduleEvents.filter(e => e.type === "lesson_time").reduce((sum, e) => sum + (e.seconds || 0), 0),
+      questionsAsked: moduleEvents.filter(e => e.type === "chat_question").length
+    };
+  });
+
+// Objectives with points lost in any exam, worst first; questions without an objective count under their topic
+export const weakestObjectives = (attempts: ExamAttempt[], limit: number = 5): ObjectiveScore[] => {
+  const scores = new Map<string, ObjectiveScore>();
+  attempts.forEach(attempt => attempt.questions.forEach(q => {
+    const objective = q.learningObjective || q.topic;
+    const result = attempt.results.find(r => r.questionId === q.id);
+    if (!objective || !result) return;
+    const key = objective.toLowerCase();
+    const score = scores.get(key) || { objective, moduleId: q.moduleId || attempt.moduleId, correct: 0, total: 0 };
+    score.correct += result.score;
+    score.total += 1;
+    scores.set(key, score);
+  }));
+  return Array.from(scores.values())
+    .filter(s => s.correct < s.total)
+    .sort((a, b) => a.correct / a.total - b.correct / b.total || b.total - a.total)
+    .slice(0, limit);
+};
+
+export const studyStreaks = (events: LearningEvent[], today: string = toIsoDate(new Date())): Streaks => {
+  const activeDays = new Set(events.map(e => toIsoDate(new Date(e.timestamp))));
+
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  Array.from(activeDays).sort().forEach(day => {
+    run = previous && addDays(previous, 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  });
+
+  let current = 0;
+  for (let day = activeDays.has(today) ? today : addDays(today, -1); activeDays.has(day); day = addDays(day, -1)) current++;
+
+  return { current, longest, activeDays };
+};
+
+// Seconds of lesson time on each of the last `days` days, oldest first
+export const timeByDay = (
+  events: LearningEvent[],
+  days: number = 14,
+  today: string = toIsoDate(new Date())
+): { date: string; seconds: number }[] =>
+  Array.from({ length: days }, (_, i) => {
+    const date = addDays(today, i - days + 1);
+    const seconds = events
+      .filter(e => e.type === "lesson_time" && toIsoDate(new Date(e.timestamp)) === date)
+      .reduce((sum, e) => sum + (e.seconds || 0), 0);
+    return { date, seconds };
+  });
+
+const csvField = (value: unknown): string => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The raw event log as a spreadsheet, for tutors who want to look at it in their own tools
+export const eventsToCsv = (events: LearningEvent[], modules: CourseModule[]): string => {
+  const title = (id?: string) => modules.find(m => m.id === id)?.title ?? id;
+  const rows = events.map(e => [
+    new Date(e.timestamp).toISOString(),
+    e.type,
+    title(e.moduleId) ?? (e.moduleIds || []).map(title).join("; "),
+    e.depth,
+    e.seconds,
+    e.score,
+    e.total,
+    e.answered,
+    e.inputMode
+  ]);
+  return [["time", "event", "module", "depth", "seconds", "score", "questions", "answered", "input"], ...rows]
+    .map(row => row.map(csvField).join(","))
+    .join("\n") + "\n";
+};
@@ -0,0 +1,32 @@
+import { ExplanationStyle, LessonAnnotation } from "../types";
+
+export const EXPLANATION_STYLES: { style: ExplanationStyle; label: string; icon: string }[] = [
+  { style: "eli5", label: "Explain simply", icon: "fa-child" },
+  { style: "definition", label: "Formal definition", icon: "fa-book" },
+  { style: "example", label: "Example", icon: "fa-flask" },
+  { style: "analogy", label: "Analogy", icon: "fa-exchange-alt" },
+  { style: "translate", label: "Translate", icon: "fa-language" }
+];
+
+export const styleLabel = (annotation: LessonAnnotation): string =>
+  annotation.style === "translate"
+    ? `Translation (${annotation.language})`
+    : EXPLANATION_STYLES.find(s => s.style === annotation.style)?.label || annotation.style;
+
+// Rendered text and Markdown source differ in markup, so passages are compared as sequences of words
+const words = (text: string): string =>
+  ` ${(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).join(" ")} `;
+
+const ANCHOR_PREFIX_WORDS = 6;
+
+// The Markdown block a quote was selected from: the block containing the whole quote, or, for a selection
+// spanning several blocks, the block where it starts. -1 once the lesson no longer contains the passage.
+export const anchorBlockIndex = (blocks: string[], quote: string): number => {
+  const quoted = words(quote);
+  if (!quoted.trim()) return -1;
+  const blockWords = blocks.map(words);
+  const whole = blockWords.findIndex(b => b.includes(quoted));
+  if (whole !== -1) return whole;
+  const prefix = ` ${quoted.trim().split(" ").slice(0, ANCHOR_PREFIX_WORDS).join(" ")} `;
+  return blockWords.findIndex(b => b.includes(prefix));
+};
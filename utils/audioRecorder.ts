@@ -0,0 +1,53 @@
+import { audioBufferToPcm, blobToBase64, encodeWav } from "./audioUtils";
+
+// Speech recognition works well at 16kHz, and it keeps recordings small
+const RECORDING_SAMPLE_RATE = 16000;
+
+export interface VoiceRecording {
+  mimeType: "audio/wav";
+  data: string; // base64
+  durationSeconds: number;
+}
+
+export interface VoiceRecorder {
+  stop(): Promise<VoiceRecording>;
+  cancel(): void;
+}
+
+// Records from the microphone until stop(). Browsers record in different containers (WebM in Chrome,
+// Ogg in Firefox, MP4 in Safari), so the result is always re-encoded as WAV, which every model accepts.
+export const startVoiceRecording = async (audioContext: AudioContext): Promise<VoiceRecorder> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const parts: Blob[] = [];
+  recorder.ondataavailable = e => {
+    if (e.data.size) parts.push(e.data);
+  };
+  recorder.start();
+
+  const release = () => stream.getTracks().forEach(track => track.stop());
+
+  const stop = () =>
+    new Promise<VoiceRecording>((resolve, reject) => {
+      recorder.onstop = async () => {
+        release();
+        try {
+          const recorded = new Blob(parts, { type: recorder.mimeType });
+          const buffer = await audioContext.decodeAudioData(await recorded.arrayBuffer());
+          const wav = encodeWav([await audioBufferToPcm(buffer, RECORDING_SAMPLE_RATE)], RECORDING_SAMPLE_RATE);
+          resolve({ mimeType: "audio/wav", data: await blobToBase64(wav), durationSeconds: buffer.duration });
+        } catch (err) {
+          reject(err);
+        }
+      };
+      recorder.stop();
+    });
+
+  const cancel = () => {
+    recorder.onstop = release;
+    if (recorder.state !== "inactive") recorder.stop();
+    else release();
+  };
+
+  return { stop, cancel };
+};
@@ -1,14 +1,22 @@
-export const decodeAudioData = async (
-  base64String: string,
-  audioContext: AudioContext,
-  sampleRate: number = 24000
-): Promise<AudioBuffer> => {
+// Format of everything generateAudioLesson returns: 24kHz, 16-bit little-endian, mono
+export const PCM_SAMPLE_RATE = 24000;
+
+export const base64ToPcm = (base64String: string): Uint8Array => {
   const binaryString = atob(base64String);
   const len = binaryString.length;
   const bytes = new Uint8Array(len);
   for (let i = 0; i < len; i++) {
     bytes[i] = binaryString.charCodeAt(i);
   }
+  return bytes;
+};
+
+export const decodeAudioData = async (
+  base64String: string,
+  audioContext: AudioContext,
+  sampleRate: number = PCM_SAMPLE_RATE
+): Promise<AudioBuffer> => {
+  const bytes = base64ToPcm(base64String);
 
   const dataInt16 = new Int16Array(bytes.buffer);
   const numChannels = 1;
@@ -24,13 +32,74 @@ export const decodeAudioData = async (
   return buffer;
 };
 
+// Starts `offset` seconds into the buffer; the returned source can be stopped, and its playbackRate changed while playing
 export const playAudioBuffer = (
   buffer: AudioBuffer,
-  audioContext: AudioContext
+  audioContext: AudioContext,
+  offset: number = 0,
+  playbackRate: number = 1
 ): AudioBufferSourceNode => {
   const source = audioContext.createBufferSource();
   source.buffer = buffer;
+  source.playbackRate.value = playbackRate;
   source.connect(audioContext.destination);
-  source.start();
+  source.start(0, Math.min(offset, buffer.duration));
   return source;
 };
+
+// Zeroed 16-bit samples, used as a pause between concatenated chunks
+export const createSilence = (seconds: number, sampleRate: number = PCM_SAMPLE_RATE): Uint8Array =>
+  new Uint8Array(Math.round(seconds * sampleRate) * 2);
+
+// Wraps raw 16-bit mono PCM (one or more chunks, played back to back) in a RIFF/WAVE container
+export const encodeWav = (chunks: Uint8Array[], sampleRate: number = PCM_SAMPLE_RATE): Blob => {
+  const dataLength = chunks.reduce((sum, c) => sum + c.length, 0);
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+  const channels = 1;
+  const bytesPerSample = 2;
+
+  writeString(0, "RIFF");
+  header.setUint32(4, 36 + dataLength, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, channels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * channels * bytesPerSample, true); // byte rate
+  header.setUint16(32, channels * bytesPerSample, true); // block align
+  header.setUint16(34, bytesPerSample * 8, true);
+  writeString(36, "data");
+  header.setUint32(40, dataLength, true);
+
+  return new Blob([header, ...chunks], { type: "audio/wav" });
+};
+
+// Mixes down to mono and resamples, then converts to 16-bit little-endian PCM for encodeWav
+export const audioBufferToPcm = async (buffer: AudioBuffer, sampleRate: number): Promise<Uint8Array> => {
+  const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil(buffer.duration * sampleRate)), sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = (await offline.startRendering()).getChannelData(0);
+
+  const pcm = new Int16Array(rendered.length);
+  for (let i = 0; i < rendered.length; i++) {
+    const sample = Math.max(-1, Math.min(1, rendered[i]));
+    pcm[i] = sample < 0 ? sample * 32768 : sample * 32767;
+  }
+  return new Uint8Array(pcm.buffer);
+};
+
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
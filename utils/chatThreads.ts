@@ -0,0 +1,76 @@
+import { ChatQuiz, ChatThread, CourseModule, Message } from "../types";
+import { totalScore } from "./examGrading";
+
+// The most recent messages always go to the model verbatim; older ones are summarized once the
+// unsummarized part of the history grows past SUMMARIZE_AFTER_CHARS
+const RECENT_MESSAGES_KEPT = 6;
+const SUMMARIZE_AFTER_CHARS = 6000;
+
+export const createChatThread = (courseId: string, module?: CourseModule, now: number = Date.now()): ChatThread => ({
+  id: `${courseId}:${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  courseId,
+  moduleId: module?.id,
+  title: module ? module.title : "General questions",
+  messages: [],
+  createdAt: now,
+  updatedAt: now
+});
+
+// Typing this starts a structured quiz instead of a free-text reply
+export const isQuizRequest = (text: string): boolean => /^\s*quiz me\b/i.test(text);
+
+const describeQuiz = (quiz: ChatQuiz): string => {
+  const questions = quiz.questions.map((q, i) => {
+    const options = q.options.length ? ` (${q.options.join(" / ")})` : "";
+    const result = quiz.results?.find(r => r.questionId === q.id);
+    return `${i + 1}. ${q.question}${options}${result ? ` — ${result.correct ? "correct" : "incorrect"}` : ""}`;
+  });
+  const score = quiz.results ? [`Score: ${totalScore(quiz.results)} / ${quiz.questions.length}`] : [];
+  return [...questions, ...score].join("\n");
+};
+
+// What a message says as text: quizzes are spelled out so the model and exports see the questions and results
+export const messageText = (message: Message): string =>
+  message.quiz ? `${message.content}\n\n${describeQuiz(message.quiz)}` : message.content;
+
+// The thread to show for a module: the one used most recently
+export const latestThreadFor = (threads: ChatThread[], moduleId?: string): ChatThread | undefined =>
+  threads
+    .filter(t => t.moduleId === moduleId)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+
+// Messages that should be folded into the summary before the next request, or [] if the history is still short
+export const messagesToSummarize = (thread: ChatThread): Message[] => {
+  const pending = thread.messages.slice(thread.summarizedCount || 0);
+  const length = pending.reduce((sum, m) => sum + messageText(m).length, 0);
+  if (pending.length <= RECENT_MESSAGES_KEPT || length < SUMMARIZE_AFTER_CHARS) return [];
+  return pending.slice(0, pending.length - RECENT_MESSAGES_KEPT);
+};
+
+// The history sent with the next message: the summary, if any, as an opening exchange, then the unsummarized turns
+export const toApiHistory = (thread: ChatThread): { role: string; parts: { text: string }[] }[] => {
+  const recent = thread.messages.slice(thread.summarizedCount || 0).map(m => ({
+    role: m.role,
+    parts: [{ text: messageText(m) }]
+  }));
+  if (!thread.summary) return recent;
+  return [
+    { role: "user", parts: [{ text: `Summary of our conversation so far: ${thread.summary}` }] },
+    { role: "model", parts: [{ text: "Thanks, I'll keep that in mind." }] },
+    ...recent
+  ];
+};
+
+export const threadToMarkdown = (thread: ChatThread, courseTitle: string): string => {
+  const lines = [
+    `# ${thread.title}`,
+    `*${courseTitle} · Sidekick conversation exported ${new Date().toLocaleString()}*`
+  ];
+  thread.messages.forEach(m => {
+    const speaker = m.role === "user" ? "You" : "Sidekick";
+    const voice = m.inputMode === "voice" ? " (voice)" : "";
+    lines.push(`### ${speaker}${voice} · ${new Date(m.timestamp).toLocaleString()}`, messageText(m));
+    if (m.sources?.length) lines.push(`Sources: ${m.sources.map(s => s.label).join("; ")}`);
+  });
+  return lines.join("\n\n") + "\n";
+};
@@ -0,0 +1,21 @@
+// Calendar dates as YYYY-MM-DD strings in local time, the form syllabus schedules are stored in
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export const toIsoDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Midnight local time on that date
+export const parseIsoDate = (iso: string): Date => {
+  const [year, month, day] = iso.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (iso: string, days: number): string => {
+  const date = parseIsoDate(iso);
+  date.setDate(date.getDate() + days);
+  return toIsoDate(date);
+};
+
+export const formatIsoDate = (iso: string, options: Intl.DateTimeFormatOptions = { weekday: "short", day: "numeric", month: "short" }): string =>
+  parseIsoDate(iso).toLocaleDateString(undefined, options);
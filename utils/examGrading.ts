@@ -0,0 +1,37 @@
+import { ExamAnswer, ExamQuestion, QuestionResult } from "../types";
+
+export const isAnswered = (question: ExamQuestion, answer: ExamAnswer | undefined): boolean => {
+  if (answer === undefined) return false;
+  if (question.type === "multi") return Array.isArray(answer) && answer.length > 0;
+  if (typeof answer === "string") return answer.trim().length > 0;
+  return true;
+};
+
+const sameSet = (a: number[], b: number[]) =>
+  a.length === b.length && a.every(x => b.includes(x));
+
+// Grades every type except short_answer, which needs the model (see gradeShortAnswers)
+export const gradeObjectiveQuestion = (question: ExamQuestion, answer: ExamAnswer | undefined): QuestionResult => {
+  let correct = false;
+
+  switch (question.type) {
+    case "multi":
+      correct = Array.isArray(answer) && sameSet(answer, question.correctAnswerIndices || []);
+      break;
+    case "numeric": {
+      const value = typeof answer === "string" ? parseFloat(answer) : NaN;
+      correct = !isNaN(value) && question.numericAnswer !== undefined &&
+        Math.abs(value - question.numericAnswer) <= (question.tolerance || 0);
+      break;
+    }
+    case "single":
+    case "true_false":
+    default:
+      correct = answer === question.correctAnswerIndex;
+  }
+
+  return { questionId: question.id, correct, score: correct ? 1 : 0 };
+};
+
+export const totalScore = (results: QuestionResult[]): number =>
+  Math.round(results.reduce((sum, r) => sum + r.score, 0) * 10) / 10;
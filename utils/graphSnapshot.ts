@@ -0,0 +1,44 @@
+import * as d3 from "d3";
+import { KnowledgeGraphData, KnowledgeNode } from "../types";
+
+export const statusColor = (status: KnowledgeNode["status"]) => {
+  if (status === "completed") return "#10b981"; // emerald-500
+  if (status === "locked") return "#64748b"; // slate-500
+  return "#3b82f6"; // blue-500
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const SNAPSHOT_TICKS = 300;
+
+// A static picture of the knowledge graph for documents: the same forces as the interactive view, run to rest
+export const renderGraphSvg = (graph: KnowledgeGraphData, width: number = 720, height: number = 440): string => {
+  const ids = new Set(graph.nodes.map(n => n.id));
+  const nodes = graph.nodes.map(n => ({ ...n })) as (KnowledgeNode & d3.SimulationNodeDatum)[];
+  const links = graph.links
+    .filter(l => ids.has(l.source) && ids.has(l.target))
+    .map(l => ({ ...l })) as any[];
+
+  d3.forceSimulation(nodes)
+    .force("link", d3.forceLink(links).id((d: any) => d.id).distance(100))
+    .force("charge", d3.forceManyBody().strength(-300))
+    .force("center", d3.forceCenter(width / 2, height / 2))
+    .stop()
+    .tick(SNAPSHOT_TICKS);
+
+  // Keep every node and its label on the page
+  const x = (n: any) => Math.max(12, Math.min(width - 120, n.x));
+  const y = (n: any) => Math.max(12, Math.min(height - 12, n.y));
+
+  const lines = links.map(l =>
+    `<line x1="${x(l.source)}" y1="${y(l.source)}" x2="${x(l.target)}" y2="${y(l.target)}" stroke="#94a3b8" stroke-opacity="0.6" stroke-width="${Math.sqrt(l.value || 1)}"/>`
+  );
+  const circles = nodes.map(n =>
+    `<circle cx="${x(n)}" cy="${y(n)}" r="10" fill="${statusColor(n.status)}" stroke="#fff" stroke-width="1.5"/>` +
+    `<text x="${x(n) + 12}" y="${y(n)}" dy=".35em" font-size="12" font-family="sans-serif" fill="#1e293b">${escapeXml(n.label)}</text>`
+  );
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">` +
+    `<rect width="100%" height="100%" fill="#f1f5f9"/>${lines.join("")}${circles.join("")}</svg>`;
+};
@@ -0,0 +1,131 @@
+import { CourseStructure } from "../types";
+import { addDays, toIsoDate } from "./dates";
+import { describeSession, formatMinutes, StudyPlan } from "./studyPlan";
+
+// iCalendar (RFC 5545) export of a study plan: one all-day event per study day and one per assessment.
+// UIDs depend only on the course and the day or assessment, and SEQUENCE grows with every export, so
+// importing a newer plan updates the earlier events. Upcoming events of the previous export that the new
+// plan no longer has are sent again as cancelled, which removes them from the calendar.
+
+// Date of every event in an export, by the key its UID is built from
+export type CalendarEventDates = Record<string, string>;
+
+const encoder = new TextEncoder();
+
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a single space
+const fold = (line: string): string => {
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const icsDate = (iso: string) => iso.replace(/-/g, "");
+
+interface EventMeta {
+  stamp: string;
+  sequence: number;
+  cancelled?: boolean;
+}
+
+const allDayEvent = (uid: string, date: string, summary: string, description: string, busy: boolean, meta: EventMeta): string[] => [
+  "BEGIN:VEVENT",
+  `UID:${uid}`,
+  `DTSTAMP:${meta.stamp}`,
+  `SEQUENCE:${meta.sequence}`,
+  ...(meta.cancelled ? ["STATUS:CANCELLED"] : []),
+  `DTSTART;VALUE=DATE:${icsDate(date)}`,
+  `DTEND;VALUE=DATE:${icsDate(addDays(date, 1))}`,
+  `SUMMARY:${escapeText(summary)}`,
+  `DESCRIPTION:${escapeText(description)}`,
+  `TRANSP:${busy ? "OPAQUE" : "TRANSPARENT"}`,
+  "END:VEVENT"
+];
+
+// What an export of this plan contains, to be remembered for cancelling dropped events next time
+export const calendarEventDates = (plan: StudyPlan, structure: CourseStructure): CalendarEventDates =>
+  Object.fromEntries([
+    ...(structure.assessments || []).filter(a => a.dueDate).map(a => [`assessment-${a.id}`, a.dueDate!]),
+    ...plan.days.map(day => [`study-${day.date}`, day.date])
+  ]);
+
+export const studyPlanToIcs = (
+  plan: StudyPlan,
+  structure: CourseStructure,
+  courseId: string,
+  previousExport: CalendarEventDates = {}
+): string => {
+  const now = new Date();
+  const meta: EventMeta = {
+    stamp: now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, ""),
+    sequence: Math.floor(now.getTime() / 1000)
+  };
+  const uid = (key: string) => `${courseId.slice(0, 16)}-${key}@syllabus-engine`;
+
+  const assessmentEvents = (structure.assessments || [])
+    .filter(a => a.dueDate)
+    .flatMap(a => {
+      const covered = structure.modules.filter(m => a.moduleIds.includes(m.id)).map(m => m.title);
+      return allDayEvent(
+        uid(`assessment-${a.id}`),
+        a.dueDate!,
+        `${a.title}${a.weight ? ` (${a.weight}% of grade)` : ""} · ${structure.title}`,
+        covered.length ? `Covers: ${covered.join(", ")}` : structure.title,
+        true,
+        meta
+      );
+    });
+
+  const studyEvents = plan.days.flatMap(day => {
+    const total = day.sessions.reduce((sum, s) => sum + s.minutes, 0);
+    return allDayEvent(
+      uid(`study-${day.date}`),
+      day.date,
+      `Study ${structure.title}: ${formatMinutes(total)}`,
+      day.sessions.map(s => `- ${describeSession(s, structure)} (${formatMinutes(s.minutes)})`).join("\n"),
+      false,
+      meta
+    );
+  });
+
+  // Past days stay in the calendar as a record of what was planned
+  const current = calendarEventDates(plan, structure);
+  const today = toIsoDate(now);
+  const cancelledEvents = Object.entries(previousExport)
+    .filter(([key, date]) => !(key in current) && date >= today)
+    .flatMap(([key, date]) => allDayEvent(
+      uid(key),
+      date,
+      `${key.startsWith("study-") ? `Study ${structure.title}` : structure.title} (no longer planned)`,
+      "Removed from the study plan.",
+      false,
+      { ...meta, cancelled: true }
+    ));
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Syllabus Engine//Study Plan//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`${structure.title} study plan`)}`,
+    ...assessmentEvents,
+    ...studyEvents,
+    ...cancelledEvents,
+    "END:VCALENDAR"
+  ].map(fold).join("\r\n") + "\r\n";
+};
@@ -0,0 +1,88 @@
+import { CourseModule } from "../types";
+import { uniqueId } from "./validation";
+
+// Pure edits of a course outline for the outline editor. Each returns a new module list;
+// existing modules keep their ids so lessons, progress and chats stay attached to them.
+
+const dedupe = (items: string[]): string[] =>
+  items.filter((item, i) => items.findIndex(other => other.toLowerCase() === item.toLowerCase()) === i);
+
+const newModuleId = (title: string, modules: CourseModule[]): string =>
+  uniqueId(title, `module-${modules.length + 1}`, new Set(modules.map(m => m.id)));
+
+export const updateModule = (modules: CourseModule[], index: number, changes: Partial<CourseModule>): CourseModule[] =>
+  modules.map((m, i) => i === index ? { ...m, ...changes } : m);
+
+export const moveModule = (modules: CourseModule[], index: number, offset: number): CourseModule[] => {
+  const target = index + offset;
+  if (target < 0 || target >= modules.length) return modules;
+  const next = [...modules];
+  const [moved] = next.splice(index, 1);
+  next.splice(target, 0, moved);
+  return next;
+};
+
+// Inserts an empty module after `index`, or at the end
+export const addModule = (modules: CourseModule[], index: number = modules.length - 1): CourseModule[] => {
+  const title = "New module";
+  const next = [...modules];
+  next.splice(index + 1, 0, { id: newModuleId(title, modules), title, topics: [], learningObjectives: [] });
+  return next;
+};
+
+export const deleteModule = (modules: CourseModule[], index: number): CourseModule[] =>
+  modules.filter((_, i) => i !== index);
+
+// Moves the topics from `topicIndex` on into a new module right after this one; objectives stay with the original
+export const splitModule = (modules: CourseModule[], index: number, topicIndex: number): CourseModule[] => {
+  const module = modules[index];
+  if (!module || topicIndex <= 0 || topicIndex >= module.topics.length) return modules;
+  const title = `${module.title} (part 2)`;
+  const next = [...modules];
+  next.splice(index, 1,
+    { ...module, topics: module.topics.slice(0, topicIndex) },
+    { id: newModuleId(title, modules), title, topics: module.topics.slice(topicIndex), learningObjectives: [] }
+  );
+  return next;
+};
+
+// Folds the module after `index` into it, keeping the first module's id and title
+export const mergeWithNext = (modules: CourseModule[], index: number): CourseModule[] => {
+  const [first, second] = [modules[index], modules[index + 1]];
+  if (!first || !second) return modules;
+  const merged: CourseModule = {
+    ...first,
+    topics: dedupe([...first.topics, ...second.topics]),
+    learningObjectives: dedupe([...first.learningObjectives, ...second.learningObjectives])
+  };
+  return [...modules.slice(0, index), merged, ...modules.slice(index + 2)];
+};
+
+// Blank topics and objectives are left while typing and dropped on save
+export const tidyModules = (modules: CourseModule[]): CourseModule[] =>
+  modules.map(m => ({
+    ...m,
+    title: m.title.trim() || "Untitled module",
+    topics: dedupe(m.topics.map(t => t.trim()).filter(Boolean)),
+    learningObjectives: dedupe(m.learningObjectives.map(o => o.trim()).filter(Boolean))
+  }));
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((item, i) => item === b[i]);
+
+// Which modules need their generated content redone after an edit: `changed` ones are new or have a
+// different title, topics or objectives; `removed` ones are gone. Reordering alone changes nothing.
+export const outlineChanges = (
+  before: CourseModule[],
+  after: CourseModule[]
+): { changed: string[]; removed: string[] } => ({
+  changed: after
+    .filter(m => {
+      const old = before.find(b => b.id === m.id);
+      return !old
+        || old.title !== m.title
+        || !sameList(old.topics, m.topics)
+        || !sameList(old.learningObjectives, m.learningObjectives);
+    })
+    .map(m => m.id),
+  removed: before.filter(b => !after.some(m => m.id === b.id)).map(b => b.id)
+});
@@ -0,0 +1,18 @@
+// Prints an HTML document through a hidden frame, so the browser's "Save as PDF" gets only the document.
+// Unlike a new window, this is not stopped by pop-up blockers when it runs after an await.
+export const printHtml = (html: string): void => {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    view.onafterprint = () => frame.remove();
+    view.focus();
+    view.print();
+  };
+  document.body.appendChild(frame);
+};
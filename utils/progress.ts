@@ -0,0 +1,89 @@
+import { CourseModule, ExamQuestion, KnowledgeGraphData, KnowledgeNode, ModuleProgress, QuestionResult } from "../types";
+import { bestMatchIndex } from "./textMatch";
+
+// Share of an exam's points needed to count a module as mastered
+export const PASSING_SCORE = 0.7;
+
+export const progressKey = (courseId: string, moduleId: string) => `${courseId}:${moduleId}`;
+
+export const isModuleCompleted = (progress: ModuleProgress | undefined): boolean =>
+  !!progress?.lessonViewedAt && !!progress?.examPassedAt;
+
+// Which module teaches each concept. Uses the node's validated moduleId; graphs saved before nodes
+// carried one are matched to modules by wording, falling back to the node's group as a module index.
+export const mapConceptsToModules = (
+  graph: KnowledgeGraphData,
+  modules: CourseModule[]
+): Record<string, CourseModule | undefined> => {
+  const candidates = modules.map(m => `${m.title} ${m.topics.join(" ")} ${m.learningObjectives.join(" ")}`);
+  return Object.fromEntries(graph.nodes.map(node => {
+    const linked = modules.find(m => m.id === node.moduleId);
+    if (linked) return [node.id, linked];
+    const matched = bestMatchIndex(node.label, candidates);
+    return [node.id, matched !== -1 ? modules[matched] : modules[node.group - 1]];
+  }));
+};
+
+// Recomputes every node's status from learner progress instead of trusting the model's guess:
+// - completed: the concept's module lesson was viewed and its exam passed
+// - available: every prerequisite (link source) is completed, or the learner has already started the module
+// - locked: otherwise
+export const computeGraphProgress = (
+  graph: KnowledgeGraphData,
+  modules: CourseModule[],
+  progress: ModuleProgress[]
+): KnowledgeGraphData => {
+  const conceptModules = mapConceptsToModules(graph, modules);
+  const progressFor = (nodeId: string) =>
+    progress.find(p => p.moduleId === conceptModules[nodeId]?.id);
+
+  const completed = new Set(
+    graph.nodes.filter(n => isModuleCompleted(progressFor(n.id))).map(n => n.id)
+  );
+
+  const nodes = graph.nodes.map((node): KnowledgeNode => {
+    const moduleId = conceptModules[node.id]?.id;
+    if (completed.has(node.id)) return { ...node, moduleId, status: "completed" };
+
+    const prerequisites = graph.links.filter(l => l.target === node.id).map(l => l.source);
+    const unlocked = prerequisites.every(id => completed.has(id)) || !!progressFor(node.id)?.lessonViewedAt;
+    return { ...node, moduleId, status: unlocked ? "available" : "locked" };
+  });
+
+  return { nodes, links: graph.links };
+};
+
+// Fraction of points earned per module. Questions are attributed by their moduleId tag;
+// a module with no tagged questions is judged on the whole exam.
+export const scoreByModule = (
+  questions: ExamQuestion[],
+  results: QuestionResult[],
+  moduleIds: string[]
+): Record<string, number> => {
+  const fraction = (qs: ExamQuestion[]) => {
+    const earned = qs.reduce((sum, q) => sum + (results.find(r => r.questionId === q.id)?.score || 0), 0);
+    return qs.length ? earned / qs.length : 0;
+  };
+  return Object.fromEntries(moduleIds.map(id => {
+    const tagged = questions.filter(q => q.moduleId === id);
+    return [id, fraction(tagged.length ? tagged : questions)];
+  }));
+};
+
+// Questions answered and points earned per module in a Sidekick quiz.
+// Questions without a moduleId tag count for the module the quiz was taken in, if any.
+export const tallyQuizByModule = (
+  questions: ExamQuestion[],
+  results: QuestionResult[],
+  fallbackModuleId?: string
+): Record<string, { answered: number; points: number }> => {
+  const tally: Record<string, { answered: number; points: number }> = {};
+  questions.forEach(q => {
+    const moduleId = q.moduleId || fallbackModuleId;
+    if (!moduleId) return;
+    const entry = tally[moduleId] || (tally[moduleId] = { answered: 0, points: 0 });
+    entry.answered += 1;
+    entry.points += results.find(r => r.questionId === q.id)?.score || 0;
+  });
+  return tally;
+};
@@ -0,0 +1,40 @@
+import { CourseModule, ExamQuestion, QuestionResult, WeakSpot } from "../types";
+import { bestMatch, bestMatchIndex } from "./textMatch";
+
+const findVerbatim = (value: string | undefined, candidates: string[]): string | undefined =>
+  value ? candidates.find(c => c.toLowerCase() === value.trim().toLowerCase()) : undefined;
+
+// Maps each missed question back to the module topic and learning objectives it tests.
+// Uses the tags the exam generator asked the model for, falling back to word overlap when they are missing or invented.
+export const findWeakSpots = (
+  questions: ExamQuestion[],
+  results: QuestionResult[],
+  modules: CourseModule[]
+): WeakSpot[] => {
+  const spots = new Map<string, WeakSpot>();
+
+  questions.forEach(q => {
+    const result = results.find(r => r.questionId === q.id);
+    if (!result || result.correct) return;
+
+    const text = `${q.question} ${q.explanation}`;
+    const module =
+      modules.find(m => m.id === q.moduleId) ||
+      modules[bestMatchIndex(text, modules.map(m => `${m.title} ${m.topics.join(" ")}`))] ||
+      modules[0];
+    if (!module) return;
+
+    const topic = findVerbatim(q.topic, module.topics) || bestMatch(text, module.topics) || module.title;
+    const objective =
+      findVerbatim(q.learningObjective, module.learningObjectives) ||
+      bestMatch(`${topic} ${text}`, module.learningObjectives);
+
+    const key = `${module.id}:${topic}`;
+    const spot = spots.get(key) || { moduleId: module.id, topic, learningObjectives: [], missedQuestions: [] };
+    if (objective && !spot.learningObjectives.includes(objective)) spot.learningObjectives.push(objective);
+    spot.missedQuestions.push(q);
+    spots.set(key, spot);
+  });
+
+  return Array.from(spots.values()).sort((a, b) => b.missedQuestions.length - a.missedQuestions.length);
+};
@@ -0,0 +1,152 @@
+import { ChatSource } from "../types";
+import { splitMarkdownBlocks } from "./speechText";
+
+// Local retrieval over course text: passages are ranked by BM25 keyword scores and, when the provider
+// has an embedding model, by vector similarity as well; the two rankings are merged by reciprocal rank fusion.
+
+export interface Passage {
+  id: string;
+  text: string;
+  source: ChatSource;
+}
+
+export interface LexicalIndex {
+  // Passage ids, best first; passages sharing no terms with the query are left out
+  search(query: string): string[];
+}
+
+const DEFAULT_PASSAGE_CHARS = 900;
+
+const STOP_WORDS = new Set(
+  ("a an and are as at be but by can do does for from has have how i if in into is it its me my of on or " +
+    "so than that the their them then there these they this to was we what when where which who why will " +
+    "with you your about explain tell").split(" ")
+);
+
+// Lower-cased words without stop words, with common English suffixes trimmed so "graphs" matches "graph"
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(word => word.length > 4 ? word.replace(/(ing|ed|es|s)$/, "") : word);
+
+const headingText = (block: string) => block.trim().replace(/^#{1,6}\s+/, "");
+
+// Splits Markdown or plain text into passages of about maxChars, never cutting a paragraph unless it is
+// longer than a passage on its own. Each passage starts with the heading it falls under, for context.
+export const chunkPassages = (
+  text: string,
+  source: ChatSource,
+  idPrefix: string,
+  maxChars: number = DEFAULT_PASSAGE_CHARS
+): Passage[] => {
+  const passages: Passage[] = [];
+  let heading = "";
+  let current = "";
+
+  const flush = () => {
+    if (current.trim()) {
+      passages.push({
+        id: `${idPrefix}:${passages.length}`,
+        text: heading && !current.startsWith(heading) ? `${heading}\n${current}` : current,
+        source
+      });
+    }
+    current = "";
+  };
+
+  splitMarkdownBlocks(text).forEach(block => {
+    if (/^#{1,6}\s/.test(block.trim())) {
+      flush();
+      heading = headingText(block);
+      return;
+    }
+    const pieces = block.length > maxChars
+      ? block.match(new RegExp(`[\\s\\S]{1,${maxChars}}(?=\\s|$)`, "g")) || [block]
+      : [block];
+    pieces.forEach(piece => {
+      if (current && current.length + piece.length + 2 > maxChars) flush();
+      current = current ? `${current}\n\n${piece}` : piece;
+    });
+  });
+  flush();
+  return passages;
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export const createLexicalIndex = (passages: Passage[]): LexicalIndex => {
+  const termCounts = passages.map(p => {
+    const counts = new Map<string, number>();
+    tokenize(p.text).forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+    return counts;
+  });
+  const lengths = termCounts.map(counts => Array.from(counts.values()).reduce((a, b) => a + b, 0));
+  const averageLength = lengths.reduce((a, b) => a + b, 0) / (lengths.length || 1) || 1;
+
+  const documentFrequency = new Map<string, number>();
+  termCounts.forEach(counts => counts.forEach((_, t) => documentFrequency.set(t, (documentFrequency.get(t) || 0) + 1)));
+
+  const idf = (term: string) => {
+    const df = documentFrequency.get(term) || 0;
+    return Math.log(1 + (passages.length - df + 0.5) / (df + 0.5));
+  };
+
+  const search = (query: string): string[] => {
+    const terms = Array.from(new Set(tokenize(query)));
+    return passages
+      .map((p, i) => {
+        let score = 0;
+        terms.forEach(term => {
+          const tf = termCounts[i].get(term);
+          if (!tf) return;
+          score += idf(term) * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * lengths[i] / averageLength));
+        });
+        return { id: p.id, score };
+      })
+      .filter(r => r.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map(r => r.id);
+  };
+
+  return { search };
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Reciprocal rank fusion: an id ranked highly by any list ends up near the top
+export const fuseRankings = (rankings: string[][], k: number = 60): string[] => {
+  const scores = new Map<string, number>();
+  rankings.forEach(ranking => ranking.forEach((id, rank) => scores.set(id, (scores.get(id) || 0) + 1 / (k + rank + 1))));
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => id);
+};
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// The sources of the numbered passages a reply cites as [1] or [1, 3], deduplicated, in order of first citation
+export const citedSources = (reply: string, passages: Passage[]): ChatSource[] => {
+  const sources: ChatSource[] = [];
+  Array.from(reply.matchAll(CITATION_PATTERN)).forEach(match => {
+    match[1].split(",").forEach(n => {
+      const source = passages[Number(n) - 1]?.source;
+      if (source && !sources.some(s => s.label === source.label)) sources.push(source);
+    });
+  });
+  return sources;
+};
+
+// For reading a reply aloud
+export const stripCitations = (reply: string): string =>
+  reply.replace(CITATION_PATTERN, "").replace(/ +([.,;:!?])/g, "$1");
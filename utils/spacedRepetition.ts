@@ -0,0 +1,63 @@
+import { Flashcard } from "../types";
+
+// SM-2 (SuperMemo 2) scheduling. Grades run 0-5; anything below 3 counts as a lapse.
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const REVIEW_BUTTONS: { label: string; grade: ReviewGrade }[] = [
+  { label: "Again", grade: 1 },
+  { label: "Hard", grade: 3 },
+  { label: "Good", grade: 4 },
+  { label: "Easy", grade: 5 }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+export const createFlashcard = (
+  courseId: string,
+  moduleId: string,
+  term: string,
+  definition: string,
+  now: number = Date.now()
+): Flashcard => ({
+  id: `${courseId}:${moduleId}:${term.toLowerCase()}`,
+  courseId,
+  moduleId,
+  term,
+  definition,
+  easeFactor: 2.5,
+  interval: 0,
+  repetitions: 0,
+  dueAt: now
+});
+
+export const scheduleReview = (card: Flashcard, grade: ReviewGrade, now: number = Date.now()): Flashcard => {
+  let { easeFactor, interval, repetitions } = card;
+
+  if (grade < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions += 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(interval * easeFactor);
+  }
+
+  easeFactor = Math.max(MIN_EASE, easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  // Lapsed cards come back in the same session rather than tomorrow
+  const dueAt = grade < 3 ? now : startOfDay(now) + interval * DAY_MS;
+
+  return { ...card, easeFactor, interval, repetitions, dueAt, lastReviewedAt: now };
+};
+
+const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Everything due by the end of today, oldest first
+export const getDueCards = (cards: Flashcard[], now: number = Date.now()): Flashcard[] => {
+  const endOfToday = startOfDay(now) + DAY_MS;
+  return cards.filter(c => c.dueAt < endOfToday).sort((a, b) => a.dueAt - b.dueAt);
+};
@@ -0,0 +1,140 @@
+import { DialogueLine } from "../types";
+
+// Turns lesson Markdown into text a TTS voice can read, split into chunks small enough to synthesize quickly.
+// Chunks never span Markdown blocks, so the block being read can be highlighted on screen.
+
+export interface SpeechChunk {
+  text: string;
+  blockIndex: number; // index into SpeechScript.blocks
+  sectionIndex: number; // index into SpeechScript.sections
+}
+
+export interface SpeechSection {
+  title: string;
+  firstChunk: number;
+}
+
+export interface SpeechScript {
+  blocks: string[];
+  chunks: SpeechChunk[];
+  sections: SpeechSection[];
+}
+
+const DEFAULT_CHUNK_CHARS = 600;
+
+// Splits on blank lines, keeping fenced code blocks whole even when they contain blank lines
+export const splitMarkdownBlocks = (markdown: string): string[] => {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    if (current.some(l => l.trim())) blocks.push(current.join("\n"));
+    current = [];
+  };
+
+  markdown.split("\n").forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (!inFence && !line.trim()) flush();
+    else current.push(line);
+  });
+  flush();
+  return blocks;
+};
+
+const withStop = (text: string) => (/[.!?:;]$/.test(text) ? text : `${text}.`);
+
+const stripInline = (text: string) =>
+  text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/\*+|~~/g, "")
+    .replace(/(^|\W)_{1,2}([^_]+)_{1,2}(?=\W|$)/g, "$1$2")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const isHeading = (block: string) => /^#{1,6}\s/.test(block.trim());
+
+export const markdownToSpeech = (block: string): string => {
+  const trimmed = block.trim();
+  if (/^(```|~~~)/.test(trimmed)) return "There is a code example on screen.";
+  if (/^([-*_]\s*){3,}$/.test(trimmed)) return "";
+
+  return trimmed
+    .split("\n")
+    .map(line => line
+      .replace(/^#{1,6}\s+/, "")
+      .replace(/^\s*>\s?/, "")
+      .replace(/^\s*([-*+]|\d+[.)])\s+/, ""))
+    // Table separator rows carry no words
+    .filter(line => !/^\s*\|?[\s:|-]+\|?\s*$/.test(line))
+    .map(line => line.includes("|")
+      ? line.split("|").map(stripInline).filter(Boolean).join(", ")
+      : stripInline(line))
+    .filter(Boolean)
+    .map(withStop)
+    .join(" ");
+};
+
+// A whole Markdown document as one speakable string, e.g. for a chat reply
+export const markdownToSpeechText = (markdown: string): string =>
+  splitMarkdownBlocks(markdown).map(markdownToSpeech).filter(Boolean).join(" ");
+
+const splitSentences = (text: string): string[] =>
+  text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)\s*/g)?.map(s => s.trim()).filter(Boolean) || [];
+
+// Greedily packs whole sentences into chunks of at most maxChunkChars (a longer sentence gets a chunk of its own)
+const packSentences = (text: string, maxChunkChars: number): string[] => {
+  const packed: string[] = [];
+  let current = "";
+  splitSentences(text).forEach(sentence => {
+    if (current && current.length + sentence.length + 1 > maxChunkChars) {
+      packed.push(current);
+      current = "";
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  });
+  if (current) packed.push(current);
+  return packed;
+};
+
+export const buildSpeechScript = (markdown: string, maxChunkChars: number = DEFAULT_CHUNK_CHARS): SpeechScript => {
+  const blocks = splitMarkdownBlocks(markdown);
+  const chunks: SpeechChunk[] = [];
+  const sections: SpeechSection[] = [];
+
+  blocks.forEach((block, blockIndex) => {
+    const speech = markdownToSpeech(block);
+    if (!speech) return;
+    if (isHeading(block) || !sections.length) {
+      sections.push({ title: isHeading(block) ? speech.replace(/[.!?:;]$/, "") : "Introduction", firstChunk: chunks.length });
+    }
+    const sectionIndex = sections.length - 1;
+    packSentences(speech, maxChunkChars).forEach(text => chunks.push({ text, blockIndex, sectionIndex }));
+  });
+
+  return { blocks, chunks, sections };
+};
+
+// One block per turn, with a new section wherever the conversation moves to another topic.
+// Chunk text keeps the "Speaker: " prefix that multi-speaker TTS uses to pick the voice.
+export const buildDialogueScript = (lines: DialogueLine[], maxChunkChars: number = DEFAULT_CHUNK_CHARS): SpeechScript => {
+  const blocks: string[] = [];
+  const chunks: SpeechChunk[] = [];
+  const sections: SpeechSection[] = [];
+
+  lines.forEach((line, blockIndex) => {
+    blocks.push(`**${line.speaker}:** ${line.text}`);
+    const previousTopic = sections.length ? sections[sections.length - 1].title : undefined;
+    if (!sections.length || (line.topic && line.topic !== previousTopic)) {
+      sections.push({ title: line.topic || "Introduction", firstChunk: chunks.length });
+    }
+    const sectionIndex = sections.length - 1;
+    packSentences(line.text, maxChunkChars)
+      .forEach(text => chunks.push({ text: `${line.speaker}: ${text}`, blockIndex, sectionIndex }));
+  });
+
+  return { blocks, chunks, sections };
+};
@@ -0,0 +1,162 @@
+import { Assessment, AssessmentType, CourseModule, CourseStructure, ModuleProgress } from "../types";
+import { addDays, parseIsoDate, toIsoDate } from "./dates";
+import { isModuleCompleted } from "./progress";
+
+// A day-by-day plan towards every upcoming assessment with a due date, built locally from the syllabus
+// schedule, the student's progress and the hours they have on each day of the week.
+
+export type StudySessionKind = "learn" | "review" | "practice" | "finish";
+
+export interface StudySession {
+  kind: StudySessionKind;
+  assessmentId: string;
+  moduleId?: string;
+  minutes: number;
+}
+
+export interface StudyDay {
+  date: string; // YYYY-MM-DD
+  sessions: StudySession[];
+}
+
+export interface AssessmentPlan {
+  assessment: Assessment;
+  modules: CourseModule[];
+  shortfallMinutes: number; // study time that did not fit before the due date
+}
+
+export interface StudyPlan {
+  days: StudyDay[];
+  assessments: AssessmentPlan[];
+}
+
+export interface StudyPlanOptions {
+  hoursByWeekday: number[]; // Sunday first, like Date.getDay()
+}
+
+// Sessions shorter than this are not worth starting, so days with less time left are skipped
+const MIN_SESSION_MINUTES = 15;
+const LEARN_MINUTES_PER_TOPIC = 40;
+const REVISIT_MINUTES_PER_TOPIC = 15;
+const REVIEW_MINUTES = 30;
+const MAX_PLAN_DAYS = 366;
+
+// The last session before the due date: a practice exam, or time to finish the work and hand it in
+const FINAL_SESSION: Record<AssessmentType, { kind: StudySessionKind; minutes: number }> = {
+  exam: { kind: "practice", minutes: 90 },
+  quiz: { kind: "practice", minutes: 45 },
+  assignment: { kind: "finish", minutes: 120 },
+  project: { kind: "finish", minutes: 180 },
+  other: { kind: "finish", minutes: 60 }
+};
+
+// The modules an assessment covers: the ones the syllabus lists, else those taught by its due date,
+// else the whole course when modules have no dates
+export const modulesCovered = (assessment: Assessment, modules: CourseModule[]): CourseModule[] => {
+  const listed = modules.filter(m => assessment.moduleIds.includes(m.id));
+  if (listed.length) return listed;
+  const due = assessment.dueDate;
+  const taught = due ? modules.filter(m => {
+    const start = m.startDate ?? m.endDate;
+    return !!start && start <= due;
+  }) : [];
+  return taught.length ? taught : modules;
+};
+
+// New material takes time per topic; a module already read, passed, or studied for an earlier assessment only needs a review
+const studyTime = (module: CourseModule, progress: ModuleProgress | undefined, studiedBefore: boolean) => {
+  if (studiedBefore || isModuleCompleted(progress)) return { kind: "review" as const, minutes: REVIEW_MINUTES };
+  if (progress?.lessonViewedAt) {
+    return { kind: "review" as const, minutes: Math.max(REVIEW_MINUTES, module.topics.length * REVISIT_MINUTES_PER_TOPIC) };
+  }
+  return { kind: "learn" as const, minutes: Math.max(60, module.topics.length * LEARN_MINUTES_PER_TOPIC) };
+};
+
+// Assessments are planned in date order, each filling the free time from today up to the day before it is due.
+// Its final session and module reviews go as late as possible; new modules as early as possible, but not before
+// the syllabus schedules them.
+export const buildStudyPlan = (
+  structure: CourseStructure,
+  progress: ModuleProgress[],
+  options: StudyPlanOptions,
+  today: string = toIsoDate(new Date())
+): StudyPlan => {
+  const freeMinutes = new Map<string, number>();
+  const sessionsByDate = new Map<string, StudySession[]>();
+
+  const remaining = (date: string): number => {
+    if (!freeMinutes.has(date)) {
+      freeMinutes.set(date, Math.round((options.hoursByWeekday[parseIsoDate(date).getDay()] || 0) * 60));
+    }
+    return freeMinutes.get(date)!;
+  };
+
+  const book = (date: string, session: StudySession) => {
+    freeMinutes.set(date, remaining(date) - session.minutes);
+    const sessions = sessionsByDate.get(date) || [];
+    const same = sessions.find(s => s.kind === session.kind && s.moduleId === session.moduleId && s.assessmentId === session.assessmentId);
+    if (same) same.minutes += session.minutes;
+    else sessions.push(session);
+    sessionsByDate.set(date, sessions);
+  };
+
+  // Books `minutes` of a session over the dates in order and returns what did not fit
+  const fill = (dates: string[], session: Omit<StudySession, "minutes">, minutes: number): number => {
+    for (const date of dates) {
+      if (minutes <= 0) break;
+      const free = remaining(date);
+      if (free < MIN_SESSION_MINUTES) continue;
+      const booked = Math.min(free, minutes);
+      book(date, { ...session, minutes: booked });
+      minutes -= booked;
+    }
+    return Math.max(0, minutes);
+  };
+
+  const upcoming = (structure.assessments || [])
+    .filter(a => a.dueDate && a.dueDate >= today)
+    .sort((a, b) => a.dueDate!.localeCompare(b.dueDate!));
+  const studied = new Set<string>();
+
+  const assessments = upcoming.map((assessment): AssessmentPlan => {
+    const window: string[] = [];
+    for (let date = today; date < assessment.dueDate! && window.length < MAX_PLAN_DAYS; date = addDays(date, 1)) window.push(date);
+
+    const final = FINAL_SESSION[assessment.type];
+    let shortfallMinutes = fill([...window].reverse(), { kind: final.kind, assessmentId: assessment.id }, final.minutes);
+
+    const modules = modulesCovered(assessment, structure.modules);
+    modules.forEach(module => {
+      const { kind, minutes } = studyTime(module, progress.find(p => p.moduleId === module.id), studied.has(module.id));
+      const dates = kind === "review"
+        ? [...window].reverse()
+        : window.filter(date => !module.startDate || date >= module.startDate);
+      shortfallMinutes += fill(dates.length ? dates : window, { kind, assessmentId: assessment.id, moduleId: module.id }, minutes);
+      studied.add(module.id);
+    });
+    return { assessment, modules, shortfallMinutes };
+  });
+
+  const days = Array.from(sessionsByDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, sessions]) => ({ date, sessions }));
+  return { days, assessments };
+};
+
+export const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest} min`;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+};
+
+export const describeSession = (session: StudySession, structure: CourseStructure): string => {
+  const module = structure.modules.find(m => m.id === session.moduleId);
+  const assessment = structure.assessments?.find(a => a.id === session.assessmentId);
+  switch (session.kind) {
+    case "learn": return `Learn ${module?.title ?? "a module"}`;
+    case "review": return `Review ${module?.title ?? "a module"}`;
+    case "practice": return `Practice exam for ${assessment?.title ?? "the exam"}`;
+    case "finish": return `Finish ${assessment?.title ?? "the assignment"}`;
+  }
+};
@@ -0,0 +1,30 @@
+// Cheap lexical matching used to line up model output with course structure when explicit ids are missing
+
+export const tokens = (text: string): Set<string> =>
+  new Set((text.toLowerCase().match(/[a-z0-9]{4,}/g) || []));
+
+const overlap = (a: Set<string>, b: Set<string>): number => {
+  let count = 0;
+  a.forEach(t => { if (b.has(t)) count++; });
+  return count;
+};
+
+// Index of the candidate sharing the most words with the text, or -1 if none share any
+export const bestMatchIndex = (text: string, candidates: string[]): number => {
+  const words = tokens(text);
+  let best = -1;
+  let bestScore = 0;
+  candidates.forEach((c, i) => {
+    const score = overlap(words, tokens(c));
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const bestMatch = (text: string, candidates: string[]): string | null => {
+  const index = bestMatchIndex(text, candidates);
+  return index === -1 ? null : candidates[index];
+};
@@ -0,0 +1,295 @@
+import { Assessment, AssessmentType, CourseModule, CourseStructure, DialogueLine, DialogueSpeaker, ExamQuestion, KnowledgeGraphData, KnowledgeLink, KnowledgeNode, QuestionType } from "../types";
+import { toIsoDate } from "./dates";
+
+// Repaired value plus everything that had to be fixed or dropped to get it.
+// `usable` is false when the output is too broken to show, which is the cue to re-prompt the model.
+export interface ValidationResult<T> {
+  value: T;
+  errors: string[];
+  usable: boolean;
+}
+
+const DIALOGUE_SPEAKERS: DialogueSpeaker[] = ["Tutor", "Student"];
+const ASSESSMENT_TYPES: AssessmentType[] = ["exam", "quiz", "assignment", "project", "other"];
+const QUESTION_TYPES: QuestionType[] = ["single", "multi", "true_false", "short_answer", "numeric"];
+const NODE_STATUSES: KnowledgeNode["status"][] = ["locked", "available", "completed"];
+
+const asString = (value: unknown): string =>
+  typeof value === "string" ? value.trim() : typeof value === "number" ? String(value) : "";
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(asString).filter(Boolean) : [];
+
+const asNumber = (value: unknown): number | undefined => {
+  const n = typeof value === "string" ? parseFloat(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : undefined;
+};
+
+// A calendar date as YYYY-MM-DD. Other formats are read by Date and kept as the local date they name.
+const asIsoDate = (value: unknown): string | undefined => {
+  const text = asString(value);
+  if (!text) return undefined;
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const date = iso ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])) : new Date(text);
+  return Number.isNaN(date.getTime()) ? undefined : toIsoDate(date);
+};
+
+// Lowercase slug, made unique against ids already taken
+export const uniqueId = (raw: string, fallback: string, taken: Set<string>): string => {
+  const base = raw.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || fallback;
+  let id = base;
+  for (let i = 2; taken.has(id); i++) id = `${base}-${i}`;
+  taken.add(id);
+  return id;
+};
+
+export const validateCourseStructure = (raw: any): ValidationResult<CourseStructure> => {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { value: { title: "Untitled Course", description: "", modules: [] }, errors: ["Expected a JSON object."], usable: false };
+  }
+  if (!Array.isArray(raw.modules)) errors.push(`"modules" must be an array.`);
+
+  const taken = new Set<string>();
+  // Assessments refer to the module ids the model wrote, so remember what each one became
+  const idMap = new Map<string, string>();
+  const modules: CourseModule[] = [];
+  (Array.isArray(raw.modules) ? raw.modules : []).forEach((m: any, i: number) => {
+    const title = asString(m?.title);
+    if (!title) {
+      errors.push(`Module ${i + 1} has no title and was dropped.`);
+      return;
+    }
+    const rawId = asString(m.id);
+    const id = uniqueId(rawId, `module-${modules.length + 1}`, taken);
+    if (rawId && rawId !== id) errors.push(`Module "${title}" id "${rawId}" was normalized to "${id}".`);
+    if (rawId) idMap.set(rawId, id);
+    const topics = asStringList(m.topics);
+    if (!topics.length) errors.push(`Module "${title}" has no topics.`);
+
+    const module: CourseModule = { id, title, topics, learningObjectives: asStringList(m.learningObjectives) };
+    const week = asNumber(m.week);
+    if (week !== undefined && Number.isInteger(week) && week > 0) module.week = week;
+    const startDate = asIsoDate(m.startDate);
+    const endDate = asIsoDate(m.endDate);
+    if (asString(m.startDate) && !startDate) errors.push(`Module "${title}" has an unreadable start date and it was dropped.`);
+    if (asString(m.endDate) && !endDate) errors.push(`Module "${title}" has an unreadable end date and it was dropped.`);
+    if (startDate) module.startDate = startDate;
+    if (endDate) module.endDate = endDate;
+    modules.push(module);
+  });
+  if (!modules.length) errors.push("The course has no usable modules.");
+
+  const assessmentIds = new Set<string>();
+  const assessments: Assessment[] = [];
+  (Array.isArray(raw.assessments) ? raw.assessments : []).forEach((a: any, i: number) => {
+    const title = asString(a?.title);
+    if (!title) {
+      errors.push(`Assessment ${i + 1} has no title and was dropped.`);
+      return;
+    }
+    const type = ASSESSMENT_TYPES.includes(a.type) ? a.type : "other";
+    const dueDate = asIsoDate(a.dueDate);
+    if (asString(a.dueDate) && !dueDate) errors.push(`Assessment "${title}" has an unreadable due date and it was dropped.`);
+    let weight = asNumber(a.weight);
+    if (weight !== undefined && (weight <= 0 || weight > 100)) {
+      errors.push(`Assessment "${title}" weight ${weight} is not a percentage and was dropped.`);
+      weight = undefined;
+    }
+    const moduleIds = asStringList(a.moduleIds)
+      .map(rawId => idMap.get(rawId) ?? (taken.has(rawId) ? rawId : undefined))
+      .filter((id): id is string => !!id);
+    if (moduleIds.length !== asStringList(a.moduleIds).length) errors.push(`Assessment "${title}" references unknown modules.`);
+    assessments.push({
+      id: uniqueId(asString(a.id) || title, `assessment-${assessments.length + 1}`, assessmentIds),
+      title,
+      type,
+      ...(dueDate ? { dueDate } : {}),
+      ...(weight !== undefined ? { weight } : {}),
+      moduleIds: Array.from(new Set(moduleIds))
+    });
+  });
+
+  return {
+    value: { title: asString(raw.title) || "Untitled Course", description: asString(raw.description), modules, assessments },
+    errors,
+    usable: modules.length > 0
+  };
+};
+
+// When a course structure is given, module and topic references must exist in it
+export const validateKnowledgeGraph = (raw: any, structure?: CourseStructure): ValidationResult<KnowledgeGraphData> => {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { value: { nodes: [], links: [] }, errors: ["Expected a JSON object with nodes and links."], usable: false };
+  }
+
+  const taken = new Set<string>();
+  // Links refer to the ids the model wrote, so remember what each one became
+  const idMap = new Map<string, string>();
+  const nodes: KnowledgeNode[] = [];
+  (Array.isArray(raw.nodes) ? raw.nodes : []).forEach((n: any, i: number) => {
+    const rawId = asString(n?.id);
+    const label = asString(n?.label) || rawId;
+    if (!label) {
+      errors.push(`Node ${i + 1} has neither id nor label and was dropped.`);
+      return;
+    }
+    if (rawId && idMap.has(rawId)) {
+      errors.push(`Duplicate node id "${rawId}" was dropped.`);
+      return;
+    }
+    const id = uniqueId(rawId || label, `concept-${nodes.length + 1}`, taken);
+    if (rawId) idMap.set(rawId, id);
+
+    let moduleId: string | undefined = asString(n.moduleId) || undefined;
+    let topic: string | undefined = asString(n.topic) || undefined;
+    if (structure) {
+      const module = structure.modules.find(m => m.id === moduleId);
+      if (moduleId && !module) errors.push(`Node "${label}" references unknown module "${moduleId}".`);
+      moduleId = module?.id;
+      topic = module?.topics.find(t => t.toLowerCase() === (topic || "").toLowerCase());
+    }
+
+    nodes.push({
+      id,
+      label,
+      group: Number.isInteger(n.group) ? n.group : 0,
+      status: NODE_STATUSES.includes(n.status) ? n.status : "locked",
+      moduleId,
+      topic
+    });
+  });
+  if (!nodes.length) errors.push("The graph has no usable nodes.");
+
+  const seen = new Set<string>();
+  const links: KnowledgeLink[] = [];
+  (Array.isArray(raw.links) ? raw.links : []).forEach((l: any) => {
+    const source = idMap.get(asString(l?.source));
+    const target = idMap.get(asString(l?.target));
+    if (!source || !target) {
+      errors.push(`Link "${asString(l?.source)}" -> "${asString(l?.target)}" references a missing node and was dropped.`);
+      return;
+    }
+    const key = `${source}->${target}`;
+    if (source === target || seen.has(key)) return;
+    seen.add(key);
+    const value = asNumber(l.value);
+    links.push({ source, target, value: value && value > 0 ? value : 1 });
+  });
+
+  return { value: { nodes, links }, errors, usable: nodes.length > 0 };
+};
+
+const validateQuestion = (raw: any, label: string, errors: string[], modules?: CourseModule[]): ExamQuestion | null => {
+  const question = asString(raw?.question);
+  if (!question) {
+    errors.push(`${label} has no question text and was dropped.`);
+    return null;
+  }
+  const type: QuestionType = QUESTION_TYPES.includes(raw.type) ? raw.type : "single";
+  if (raw.type !== type) errors.push(`${label} has unknown type "${raw.type}"; treated as "single".`);
+
+  // Untagged or mistagged questions fall back to the only module when there is just one
+  let moduleId = asString(raw.moduleId) || undefined;
+  if (modules && !modules.some(m => m.id === moduleId)) {
+    if (moduleId) errors.push(`${label} references unknown module "${moduleId}".`);
+    moduleId = modules.length === 1 ? modules[0].id : undefined;
+  }
+
+  const base = {
+    id: 0,
+    type,
+    question,
+    options: [] as string[],
+    correctAnswerIndex: -1,
+    explanation: asString(raw.explanation),
+    moduleId,
+    topic: asString(raw.topic) || undefined,
+    learningObjective: asString(raw.learningObjective) || undefined
+  };
+
+  switch (type) {
+    case "multi": {
+      const options = asStringList(raw.options);
+      const indices = Array.isArray(raw.correctAnswerIndices)
+        ? [...new Set<number>(raw.correctAnswerIndices.filter((i: unknown) => Number.isInteger(i)))]
+        : [];
+      const valid = indices.filter(i => i >= 0 && i < options.length);
+      if (options.length < 2 || !valid.length) {
+        errors.push(`${label} (multi) needs at least 2 options and correctAnswerIndices within range; dropped.`);
+        return null;
+      }
+      if (valid.length !== indices.length) errors.push(`${label} had out-of-range correctAnswerIndices; they were removed.`);
+      return { ...base, options, correctAnswerIndices: valid.sort((a, b) => a - b) };
+    }
+    case "short_answer": {
+      const correctAnswerText = asString(raw.correctAnswerText) || base.explanation;
+      if (!correctAnswerText) {
+        errors.push(`${label} (short_answer) has no correctAnswerText; dropped.`);
+        return null;
+      }
+      return { ...base, correctAnswerText };
+    }
+    case "numeric": {
+      const numericAnswer = asNumber(raw.numericAnswer);
+      if (numericAnswer === undefined) {
+        errors.push(`${label} (numeric) has no numericAnswer; dropped.`);
+        return null;
+      }
+      return { ...base, numericAnswer, tolerance: Math.abs(asNumber(raw.tolerance) || 0) };
+    }
+    case "true_false":
+    case "single":
+    default: {
+      const options = type === "true_false" ? ["True", "False"] : asStringList(raw.options);
+      let index = Number.isInteger(raw.correctAnswerIndex) ? raw.correctAnswerIndex : -1;
+      // Models sometimes answer with the option text instead of its index
+      if (index === -1 && typeof raw.correctAnswer === "string") {
+        index = options.findIndex(o => o.toLowerCase() === raw.correctAnswer.trim().toLowerCase());
+      }
+      if (options.length < 2 || index < 0 || index >= options.length) {
+        errors.push(`${label} (${type}) needs at least 2 options and a correctAnswerIndex within range; dropped.`);
+        return null;
+      }
+      return { ...base, options, correctAnswerIndex: index };
+    }
+  }
+};
+
+// Questions are renumbered from 1 so answers keyed by id stay unambiguous
+export const validateExamQuestions = (raw: any, modules?: CourseModule[]): ValidationResult<ExamQuestion[]> => {
+  if (!Array.isArray(raw)) {
+    return { value: [], errors: ["Expected a JSON array of questions."], usable: false };
+  }
+  const errors: string[] = [];
+  const questions = raw
+    .map((q, i) => validateQuestion(q, `Question ${i + 1}`, errors, modules))
+    .filter((q): q is ExamQuestion => q !== null)
+    .map((q, i) => ({ ...q, id: i + 1 }));
+  if (!questions.length) errors.push("The exam has no usable questions.");
+
+  return { value: questions, errors, usable: questions.length > 0 };
+};
+
+// Speakers are matched case-insensitively; turns with an unknown speaker or no text are dropped
+export const validateDialogue = (raw: any, topics: string[] = []): ValidationResult<DialogueLine[]> => {
+  if (!Array.isArray(raw)) {
+    return { value: [], errors: ["Expected a JSON array of dialogue lines."], usable: false };
+  }
+  const errors: string[] = [];
+  const lines: DialogueLine[] = [];
+  raw.forEach((l: any, i: number) => {
+    const speaker = DIALOGUE_SPEAKERS.find(s => s.toLowerCase() === asString(l?.speaker).toLowerCase());
+    const text = asString(l?.text);
+    if (!speaker || !text) {
+      errors.push(`Line ${i + 1} needs a speaker of "Tutor" or "Student" and some text; dropped.`);
+      return;
+    }
+    const topic = topics.find(t => t.toLowerCase() === asString(l.topic).toLowerCase());
+    lines.push({ speaker, text, topic });
+  });
+  if (lines.length < 2) errors.push("The dialogue needs at least two lines.");
+
+  return { value: lines, errors, usable: lines.length >= 2 };
+};
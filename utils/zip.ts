@@ -0,0 +1,55 @@
+// Minimal ZIP reader: enough to pull single entries out of .docx files without a dependency.
+// Supports stored and deflated entries; no ZIP64, encryption or multi-disk archives.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIZE = 30;
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  // The EOCD record is at least 22 bytes and may be followed by a comment of up to 64KB
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  throw new Error("Not a ZIP archive");
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const readZipEntry = async (buffer: ArrayBuffer, entryName: string): Promise<Uint8Array | null> => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new Error("Corrupt ZIP central directory");
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (name === entryName) {
+      // Local header name/extra lengths can differ from the central directory's
+      const localNameLength = view.getUint16(localOffset + 26, true);
+      const localExtraLength = view.getUint16(localOffset + 28, true);
+      const start = localOffset + LOCAL_HEADER_SIZE + localNameLength + localExtraLength;
+      const data = new Uint8Array(buffer, start, compressedSize);
+
+      if (method === 0) return data;
+      if (method === 8) return inflateRaw(data);
+      throw new Error(`Unsupported ZIP compression method ${method}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+};